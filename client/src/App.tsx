@@ -1,16 +1,19 @@
 import { useEffect } from 'react'
 import Header from './components/Header'
 import PDFViewer from './components/PDFViewer'
+import TocSidebar from './components/TocSidebar'
 import Chat from './components/Chat'
 import AudioRecorder from './components/AudioRecorder'
 import ConnectionDebugger from './components/ConnectionDebugger'
 import useStore from './store/useStore'
 import './App.css'
 import useSocket from './hooks/useSocket'
+import useTranslation from './hooks/useTranslation'
 
 function App() {
   const { isConnected } = useStore()
   const { reconnect } = useSocket()
+  const { t } = useTranslation()
   
   useEffect(() => {
     // Initial connection attempt
@@ -21,13 +24,14 @@ function App() {
     <div className="app">
       <Header />
       <main>
+        <TocSidebar />
         <PDFViewer />
         <div className="chat-section">
           <Chat />
           
           {!isConnected && (
             <div className="connection-status">
-              <p>Connecting to server...</p>
+              <p>{t('connectingToServer')}</p>
             </div>
           )}
           
@@ -5,6 +5,7 @@ import MicrophonePermissionsModal from './MicrophonePermissionsModal';
 import useStore from '../store/useStore';
 import useRealtimeVoiceChat from '../hooks/useRealtimeVoiceChat';
 import useSocket from '../hooks/useSocket';
+import useTranslation from '../hooks/useTranslation';
 import '../styles/AudioRecorder.css';
 
 /**
@@ -13,8 +14,11 @@ import '../styles/AudioRecorder.css';
 const AudioRecorder: React.FC = () => {
   const {
     setIsRecording,
-    setIsProcessing
+    setIsProcessing,
+    personaId,
+    language
   } = useStore();
+  const { t } = useTranslation();
   
   // Get socket connection
   const { socket } = useSocket();
@@ -46,7 +50,6 @@ const AudioRecorder: React.FC = () => {
   } = useRealtimeVoiceChat({
     debugMode: true,
     initialPrompt: 'You are a helpful assistant that answers questions about documents. Keep your answers concise and friendly.',
-    voice: 'echo', // OpenAI voice options: alloy, ash, ballad, coral, echo, sage, shimmer, verse
     disableVad: true // Disable Voice Activity Detection for manual control
   });
   
@@ -60,6 +63,19 @@ const AudioRecorder: React.FC = () => {
     setIsRecording(isRecording);
   }, [isRecording, setIsRecording]);
 
+  // End the session when the persona or language changes, so the next question starts one with the new voice
+  const speakerRef = useRef(`${personaId}|${language}`);
+  useEffect(() => {
+    const speaker = `${personaId}|${language}`;
+    if (speakerRef.current === speaker) return;
+    speakerRef.current = speaker;
+
+    if (sessionId && !isRecordingRef.current) {
+      console.log(`🔄 Persona or language changed (${personaId}, ${language}), ending session ${sessionId}`);
+      endSession().catch(err => console.error("❌ Error ending session:", err));
+    }
+  }, [personaId, language, sessionId, endSession]);
+
   // Handle errors from the voice chat hook
   useEffect(() => {
     if (voiceChatError) {
@@ -145,7 +161,7 @@ const AudioRecorder: React.FC = () => {
           console.warn("⚠️ Failed to commit audio buffer through the hook, trying direct method");
           if (socket && socket.connected) {
             console.log(`🔄 Directly emitting commit-audio-buffer with session ID: ${currentSessionId}`);
-            socket.emit('commit-audio-buffer', { sessionId: currentSessionId });
+            socket.emit('commit-audio-buffer', { sessionId: currentSessionId, ...useStore.getState().getPageContext() });
             console.log("✅ Direct emission of commit-audio-buffer event successful");
           } else {
             throw new Error("Socket not connected");
@@ -168,7 +184,7 @@ const AudioRecorder: React.FC = () => {
           console.warn("⚠️ Failed to create response through the hook, trying direct method");
           if (socket && socket.connected) {
             console.log(`🔄 Directly emitting create-response with session ID: ${currentSessionId}`);
-            socket.emit('create-response', { sessionId: currentSessionId });
+            socket.emit('create-response', { sessionId: currentSessionId, ...useStore.getState().getPageContext() });
             console.log("✅ Direct emission of create-response event successful");
           } else {
             throw new Error("Socket not connected");
@@ -277,7 +293,7 @@ const AudioRecorder: React.FC = () => {
     <>
       <div className="record-button-container">
         <div className="spacebar-hint">
-          Hold <kbd>Space</kbd> to record
+          {t('recordHintBefore')} <kbd>{t('spaceKey')}</kbd> {t('recordHintAfter')}
         </div>
         <motion.button
           className="main-record-button"
@@ -306,7 +322,7 @@ const AudioRecorder: React.FC = () => {
         
         {isProcessing && !isRecordingRef.current && (
           <div className="processing-indicator">
-            Processing...
+            {t('processing')}
           </div>
         )}
       </div>
@@ -1,10 +1,16 @@
-import { useEffect, useRef } from 'react';
+import { FormEvent, useEffect, useRef, useState } from 'react';
 import useStore from '../store/useStore';
 import { Message } from '../store/useStore';
+import useSocket from '../hooks/useSocket';
+import useTranslation from '../hooks/useTranslation';
 
 const Chat = () => {
-  const { messages } = useStore();
+  const { messages, addMessage } = useStore();
+  const isProcessing = useStore((state) => state.audioState.isProcessing);
+  const { socketReady, sendTextInput } = useSocket();
+  const { t } = useTranslation();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState('');
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -13,11 +19,23 @@ const Chat = () => {
     }
   }, [messages]);
 
+  // Typed questions go to the live conversation when one is connected, like a spoken one
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const text = draft.trim();
+    if (!text || isProcessing) return;
+
+    if (sendTextInput(text)) {
+      addMessage(text, 'user', false);
+      setDraft('');
+    }
+  };
+
   return (
     <div className="chat-wrapper">
       <div className="chat-header">
-        <h2>Transcription</h2>
-        <button className="button" title="Clear chat">
+        <h2>{t('transcription')}</h2>
+        <button className="button" title={t('clearChat')}>
           <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <path d="M3 6h18"></path>
             <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path>
@@ -37,6 +55,20 @@ const Chat = () => {
         ))}
         <div ref={messagesEndRef} />
       </div>
+
+      <form className="chat-input" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('typeMessage')}
+          aria-label={t('typeMessage')}
+          disabled={!socketReady}
+        />
+        <button type="submit" className="button primary" disabled={!socketReady || isProcessing || !draft.trim()}>
+          {t('sendMessage')}
+        </button>
+      </form>
     </div>
   );
 };
@@ -1,3 +1,7 @@
+import LanguagePicker from './LanguagePicker';
+import PersonaPicker from './PersonaPicker';
+import SpeedControl from './SpeedControl';
+
 const Header = () => {
   return (
     <header>
@@ -8,6 +12,11 @@ const Header = () => {
           </svg>
           {/* <h1>Live Feedback</h1> */}
         </div>
+        <div className="header-settings">
+          <LanguagePicker />
+          <PersonaPicker />
+          <SpeedControl />
+        </div>
       </div>
     </header>
   );
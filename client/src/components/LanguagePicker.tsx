@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import useStore from '../store/useStore';
+import useTranslation from '../hooks/useTranslation';
+
+/**
+ * Select the session language among the languages the report has personas for
+ */
+const LanguagePicker = () => {
+  const { personas, language, setLanguage } = useStore();
+  const { t } = useTranslation();
+
+  // Keep the document language in sync for screen readers and spell checking
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const languages = personas.reduce<{ language: string, label: string }[]>((list, persona) => {
+    if (!list.some(entry => entry.language === persona.language)) {
+      list.push({ language: persona.language, label: persona.displayLanguage || persona.language });
+    }
+    return list;
+  }, []);
+
+  if (languages.length < 2) {
+    return null;
+  }
+
+  return (
+    <label className="persona-picker">
+      <span>{t('language')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value)}
+      >
+        {languages.map(entry => (
+          <option key={entry.language} value={entry.language}>
+            {entry.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
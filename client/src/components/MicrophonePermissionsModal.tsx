@@ -1,26 +1,29 @@
 import React from 'react';
+import useTranslation from '../hooks/useTranslation';
 
 interface MicrophonePermissionsModalProps {
   onClose: () => void;
 }
 
 const MicrophonePermissionsModal: React.FC<MicrophonePermissionsModalProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-6 max-w-md w-full">
-        <h2 className="text-xl font-bold mb-4">Microphone Access Required</h2>
+        <h2 className="text-xl font-bold mb-4">{t('micTitle')}</h2>
         
         <p className="mb-4">
-          To use the voice chat feature, please allow access to your microphone in your browser settings.
+          {t('micBody')}
         </p>
         
         <div className="mb-4">
-          <h3 className="font-semibold mb-2">How to enable microphone access:</h3>
+          <h3 className="font-semibold mb-2">{t('micHowTo')}</h3>
           <ol className="list-decimal list-inside space-y-1">
-            <li>Click on the padlock or info icon in your browser's address bar</li>
-            <li>Find "Microphone" permissions in the site settings</li>
-            <li>Change the setting to "Allow"</li>
-            <li>Refresh the page</li>
+            <li>{t('micStep1')}</li>
+            <li>{t('micStep2')}</li>
+            <li>{t('micStep3')}</li>
+            <li>{t('micStep4')}</li>
           </ol>
         </div>
         
@@ -29,7 +32,7 @@ const MicrophonePermissionsModal: React.FC<MicrophonePermissionsModalProps> = ({
             onClick={onClose}
             className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
           >
-            Close
+            {t('close')}
           </button>
         </div>
       </div>
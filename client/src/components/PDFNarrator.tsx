@@ -1,30 +1,72 @@
 import { useEffect, useState } from 'react';
 import useStore from '../store/useStore';
-import useSocket from '../hooks/useSocket';
+import useSocket, { PageNarrationStage } from '../hooks/useSocket';
+import useStepNarration from '../hooks/useStepNarration';
+import useTranslation from '../hooks/useTranslation';
+import { StringKey } from '../i18n/strings';
+
+type NarrationMode = 'steps' | 'summary';
+
+// Delay before narration moves on to the next page
+const NEXT_PAGE_DELAY_MS = 1500;
+
+const PAGE_STAGE_LABELS: Partial<Record<PageNarrationStage, StringKey>> = {
+  loading: 'stageLoading',
+  summarizing: 'stageSummarizing',
+  synthesizing: 'stageSynthesizing',
+};
 
 const PDFNarrator = () => {
-  const { pdfState } = useStore();
-  const { 
-    requestPageSummary, 
-    isProcessingPage, 
-    currentAudio, 
+  const { pdfState, markPageNarrated, narrationJump, setNarrationJump } = useStore();
+  const { t } = useTranslation();
+  const {
+    requestPageSummary,
+    isProcessingPage,
+    currentAudio,
+    pageProgress,
     isPaused,
     pauseAudio,
     resumeAudio,
-    stopAudio 
+    stopAudio
   } = useSocket();
-  
+
+  const [narrationMode, setNarrationMode] = useState<NarrationMode>('steps');
   const [isNarrating, setIsNarrating] = useState(false);
   const [currentPageNumber, setCurrentPageNumber] = useState(1);
 
+  // Step mode: continue with the next page once every step of this page has been narrated
+  const handleStepPageCompleted = (pageNumber: number) => {
+    markPageNarrated(pageNumber);
+    const nextPage = pageNumber + 1;
+
+    if (nextPage > useStore.getState().pdfState.pageCount) {
+      setIsNarrating(false);
+      setCurrentPageNumber(0);
+      return;
+    }
+
+    setCurrentPageNumber(nextPage);
+    setTimeout(() => {
+      useStore.getState().setPageNum(nextPage);
+      stepNarration.startPage(nextPage);
+    }, NEXT_PAGE_DELAY_MS);
+  };
+
+  const stepNarration = useStepNarration({ onPageCompleted: handleStepPageCompleted });
+
   // Start narration of the PDF
   const startNarration = async () => {
     setIsNarrating(true);
-    
+
     // Start with the current page
     const currentPage = pdfState.pageNum;
     setCurrentPageNumber(currentPage);
-    
+
+    if (narrationMode === 'steps') {
+      stepNarration.startPage(currentPage);
+      return;
+    }
+
     // Request summary for the current page
     await requestPageSummary(currentPage);
   };
@@ -32,101 +74,183 @@ const PDFNarrator = () => {
   // Stop narration
   const stopNarration = () => {
     setIsNarrating(false);
-    stopAudio();
+    if (narrationMode === 'steps') {
+      stepNarration.stop();
+    } else {
+      stopAudio();
+    }
   };
 
-  // Move to the next page when audio playback finishes
+  // Summary mode: move to the next page when audio playback finishes
   useEffect(() => {
+    if (narrationMode !== 'summary') return;
+
     if (isNarrating && !isProcessingPage && !currentAudio && currentPageNumber > 0) {
       // Audio has finished playing, move to next page
+      markPageNarrated(currentPageNumber);
       const nextPage = currentPageNumber + 1;
-      
+
       if (nextPage <= pdfState.pageCount) {
         // There are more pages to narrate
         setCurrentPageNumber(nextPage);
-        
+
         // Set a short delay before starting the next page
         setTimeout(() => {
           // Change the page in the PDF viewer
           useStore.getState().setPageNum(nextPage);
-          
+
           // Request summary for the next page
           requestPageSummary(nextPage);
-        }, 1500);
+        }, NEXT_PAGE_DELAY_MS);
       } else {
         // No more pages to narrate
         setIsNarrating(false);
         setCurrentPageNumber(0);
       }
     }
-  }, [isNarrating, isProcessingPage, currentAudio, currentPageNumber, pdfState.pageCount]);
+  }, [narrationMode, isNarrating, isProcessingPage, currentAudio, currentPageNumber, pdfState.pageCount]);
+
+  // Continue narration from a page or step picked in the table of contents
+  useEffect(() => {
+    if (!narrationJump) return;
+    setNarrationJump(null);
+
+    if (!isNarrating && !narrationJump.start) return;
+
+    setIsNarrating(true);
+    setCurrentPageNumber(narrationJump.pageNumber);
+
+    if (narrationMode === 'steps') {
+      stepNarration.startPage(narrationJump.pageNumber, narrationJump.stepKey);
+      return;
+    }
+
+    stopAudio();
+    requestPageSummary(narrationJump.pageNumber);
+  }, [narrationJump, setNarrationJump, isNarrating, narrationMode, stepNarration, stopAudio, requestPageSummary]);
+
+  const { currentStep } = stepNarration;
+  const hasAudio = narrationMode === 'steps' ? Boolean(currentStep) : Boolean(currentAudio);
+  const audioPaused = narrationMode === 'steps' ? stepNarration.isPaused : isPaused;
+  const isLoading = narrationMode === 'steps' ? isNarrating && stepNarration.isLoadingStep : isProcessingPage;
 
   return (
     <div className="pdf-narrator">
       <div className="narrator-controls">
+        <select
+          className="narrator-mode"
+          value={narrationMode}
+          onChange={(e) => setNarrationMode(e.target.value as NarrationMode)}
+          disabled={isNarrating}
+          title={t('narrationMode')}
+        >
+          <option value="steps">{t('stepByStep')}</option>
+          <option value="summary">{t('pageSummaries')}</option>
+        </select>
+
         {!isNarrating ? (
-          <button 
-            className="button primary" 
+          <button
+            className="button primary"
             onClick={startNarration}
             disabled={isProcessingPage}
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <polygon points="5 3 19 12 5 21 5 3"></polygon>
             </svg>
-            Start Narration
+            {t('startNarration')}
           </button>
         ) : (
-          <button 
-            className="button danger" 
+          <button
+            className="button danger"
             onClick={stopNarration}
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect>
             </svg>
-            Stop Narration
+            {t('stopNarration')}
           </button>
         )}
-        
-        {currentAudio && (
-          isPaused ? (
-            <button 
+
+        {hasAudio && (
+          audioPaused ? (
+            <button
               className="button"
-              onClick={resumeAudio}
+              onClick={narrationMode === 'steps' ? stepNarration.resume : resumeAudio}
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <polygon points="5 3 19 12 5 21 5 3"></polygon>
               </svg>
-              Resume
+              {t('resume')}
             </button>
           ) : (
-            <button 
+            <button
               className="button"
-              onClick={pauseAudio}
+              onClick={narrationMode === 'steps' ? stepNarration.pause : pauseAudio}
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                 <rect x="6" y="4" width="4" height="16"></rect>
                 <rect x="14" y="4" width="4" height="16"></rect>
               </svg>
-              Pause
+              {t('pause')}
             </button>
           )
         )}
+
+        {narrationMode === 'steps' && currentStep && (
+          <>
+            <button
+              className="button"
+              onClick={() => stepNarration.replayStep()}
+              title={t('replayStep')}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="1 4 1 10 7 10"></polyline>
+                <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>
+              </svg>
+              {t('replay')}
+            </button>
+            <button
+              className="button"
+              onClick={stepNarration.skipStep}
+              title={t('skipStep')}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polygon points="5 4 15 12 5 20 5 4"></polygon>
+                <line x1="19" y1="5" x2="19" y2="19"></line>
+              </svg>
+              {t('skip')}
+            </button>
+          </>
+        )}
       </div>
-      
-      {isProcessingPage && (
+
+      {isLoading && (
         <div className="narrator-status">
           <div className="loading-indicator"></div>
-          <p>Processing page {currentPageNumber}...</p>
+          <p>
+            {t((narrationMode === 'summary' && pageProgress && PAGE_STAGE_LABELS[pageProgress.stage]) || 'stageProcessing', { page: currentPageNumber })}
+          </p>
         </div>
       )}
-      
-      {isNarrating && !isProcessingPage && currentAudio && (
+
+      {isNarrating && !isLoading && hasAudio && (
         <div className="narrator-status">
-          <p>Narrating page {currentPageNumber} of {pdfState.pageCount}</p>
+          {narrationMode === 'steps' && currentStep ? (
+            <p>
+              {t('stepStatus', {
+                page: currentStep.pageNumber,
+                step: currentStep.stepIndex + 1,
+                count: currentStep.stepCount,
+                title: currentStep.title.replace(/^>/, ''),
+              })}
+            </p>
+          ) : (
+            <p>{t('narratingPage', { page: currentPageNumber, count: pdfState.pageCount })}</p>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-export default PDFNarrator; 
\ No newline at end of file
+export default PDFNarrator;
@@ -1,13 +1,18 @@
 import { useState, useEffect, useRef, ChangeEvent } from 'react';
 import useStore from '../store/useStore';
 import * as pdfjsLib from 'pdfjs-dist';
+import { AnimatePresence, motion } from 'framer-motion';
 // Import the worker directly (Vite will handle this correctly)
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import PDFNarrator from './PDFNarrator';
+import useSocket from '../hooks/useSocket';
+import useTranslation from '../hooks/useTranslation';
 
 // Set the worker explicitly from the imported module
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 
+const SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+
 const PDFViewer = () => {
   // Get PDF state from global store
   const {
@@ -20,16 +25,44 @@ const PDFViewer = () => {
     zoomIn,
     zoomOut,
     setBaseScale,
+    narrationHighlight,
+    setReportKey,
   } = useStore();
+  const { socket } = useSocket();
+  const { t } = useTranslation();
 
   // Local state
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [narrationStatus, setNarrationStatus] = useState<'preparing' | 'failed' | null>(null);
 
   // Create canvas ref
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Narrate an uploaded PDF: the server writes steps for it and returns its report key
+  const prepareNarration = async (file: File) => {
+    setNarrationStatus('preparing');
+    try {
+      const body = new FormData();
+      body.append('pdf', file);
+      body.append('title', file.name.replace(/\.pdf$/i, ''));
+      body.append('language', useStore.getState().language);
+
+      const response = await fetch(`${SERVER_URL}/reports/generate`, { method: 'POST', body });
+      if (!response.ok) {
+        throw new Error(`Failed to prepare narration: ${response.status}`);
+      }
+      const summary: { reportKey: string } = await response.json();
+      console.log(`Narration ready for report ${summary.reportKey}`);
+      setReportKey(summary.reportKey);
+      setNarrationStatus(null);
+    } catch (error) {
+      console.error('Error preparing narration:', error);
+      setNarrationStatus('failed');
+    }
+  };
+
   // Handle file upload
   const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -67,6 +100,8 @@ const PDFViewer = () => {
         
         // Calculate base scale based on container size
         calculateBaseScale();
+
+        prepareNarration(file);
       } catch (error: any) {
         console.error('Error loading PDF:', error);
         setPdfError(`Error loading PDF: ${error.message || 'Unknown error'}. Please try again.`);
@@ -99,8 +134,9 @@ const PDFViewer = () => {
           const pdf = await loadingTask.promise;
           console.log(`Successfully loaded PDF with ${pdf.numPages} pages`);
           
-          // Set PDF document and update page count
+          // Set PDF document and update page count; the default PDF narrates the default report
           setPDFDoc(pdf);
+          setReportKey(null);
           setPageCount(pdf.numPages);
           setPageNum(1);
           setPdfError(null);
@@ -164,6 +200,7 @@ const PDFViewer = () => {
       
       // Set PDF document and update page count
       setPDFDoc(pdf);
+      setReportKey(null);
       setPageCount(pdf.numPages);
       setPageNum(1);
       setPdfError(null);
@@ -322,6 +359,27 @@ const PDFViewer = () => {
     };
   }, [nextPage, prevPage, zoomIn, zoomOut]);
 
+  // Show pages the assistant navigates to ("take me to my drivers page")
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleNavigate = (data: { pageNumber: number; pageTitle: string }) => {
+      const { pageCount } = useStore.getState().pdfState;
+      if (data.pageNumber < 1 || (pageCount && data.pageNumber > pageCount)) {
+        console.warn(`[PDFViewer] Ignoring navigation to page ${data.pageNumber} of ${pageCount}`);
+        return;
+      }
+      console.log(`[PDFViewer] Navigating to page ${data.pageNumber}: ${data.pageTitle}`);
+      setPageNum(data.pageNumber);
+    };
+
+    socket.on('navigate-to-page', handleNavigate);
+
+    return () => {
+      socket.off('navigate-to-page', handleNavigate);
+    };
+  }, [socket, setPageNum]);
+
   return (
     <div className="pdf-viewer" ref={containerRef}>
       {pdfState.pdfDoc && <PDFNarrator />}
@@ -330,18 +388,46 @@ const PDFViewer = () => {
         {isLoading && (
           <div className="loading-overlay">
             <div className="spinner"></div>
-            <p>Loading PDF...</p>
+            <p>{t('loadingPdf')}</p>
           </div>
         )}
         
+        {narrationStatus && (
+          <div className={`narration-status ${narrationStatus}`}>
+            {narrationStatus === 'preparing' ? t('preparingNarration') : t('narrationUnavailable')}
+          </div>
+        )}
+
         {pdfError && (
           <div className="error-message">
             <p>{pdfError}</p>
-            <button onClick={loadDefaultPDF}>Try again</button>
+            <button onClick={loadDefaultPDF}>{t('tryAgain')}</button>
           </div>
         )}
         
-        <canvas ref={canvasRef} className="pdf-canvas"></canvas>
+        <div className="pdf-canvas-layer">
+          <canvas ref={canvasRef} className="pdf-canvas"></canvas>
+          
+          {/* Highlight of the narrated step; positioned in fractions of the page so it follows the zoom */}
+          <AnimatePresence>
+            {narrationHighlight && narrationHighlight.pageNumber === pdfState.pageNum && (
+              <motion.div
+                key={`${narrationHighlight.top}-${narrationHighlight.left}-${narrationHighlight.width}-${narrationHighlight.height}`}
+                className="narration-highlight"
+                style={{
+                  top: `${narrationHighlight.top * 100}%`,
+                  left: `${narrationHighlight.left * 100}%`,
+                  width: `${narrationHighlight.width * 100}%`,
+                  height: `${narrationHighlight.height * 100}%`,
+                }}
+                initial={{ opacity: 0, scale: 0.96 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.35, ease: 'easeOut' }}
+              />
+            )}
+          </AnimatePresence>
+        </div>
       </div>
       
       {pdfState.pdfDoc && (
@@ -349,7 +435,7 @@ const PDFViewer = () => {
           <button 
             onClick={prevPage} 
             disabled={pdfState.pageNum <= 1 || isLoading}
-            title="Previous page"
+            title={t('previousPage')}
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <polyline points="15 18 9 12 15 6"></polyline>
@@ -357,18 +443,27 @@ const PDFViewer = () => {
           </button>
           
           <span className="page-info">
-            Page {pdfState.pageNum} of {pdfState.pageCount}
+            {t('pageOf', { page: pdfState.pageNum, count: pdfState.pageCount })}
           </span>
           
           <button 
             onClick={nextPage} 
             disabled={pdfState.pageNum >= pdfState.pageCount || isLoading}
-            title="Next page"
+            title={t('nextPage')}
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <polyline points="9 18 15 12 9 6"></polyline>
             </svg>
           </button>
+
+          <label className="pdf-upload-button" title={t('uploadPdf')}>
+            <input type="file" accept="application/pdf" onChange={handleFileUpload} disabled={isLoading} />
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+              <polyline points="17 8 12 3 7 8"></polyline>
+              <line x1="12" y1="3" x2="12" y2="15"></line>
+            </svg>
+          </label>
         </div>
       )}
     </div>
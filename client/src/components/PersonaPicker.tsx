@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import useStore, { Persona } from '../store/useStore';
+import useTranslation from '../hooks/useTranslation';
+
+const SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+
+/**
+ * Select the narrator persona used for narration and live Q&A, among the personas of the session language.
+ * The server lists the report's default persona first, which is selected until the user picks another.
+ */
+const PersonaPicker = () => {
+  const { reportKey, personas, setPersonas, personaId, setPersonaId, language, setLanguage } = useStore();
+  const { t } = useTranslation();
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPersonas = async () => {
+      try {
+        setError(false);
+        const response = await fetch(`${SERVER_URL}/reports/${reportKey || 'default'}/personas`);
+        if (!response.ok) {
+          throw new Error(`Failed to load personas: ${response.status}`);
+        }
+        const list: Persona[] = await response.json();
+        if (cancelled) return;
+
+        setPersonas(list);
+        // Keep the selected persona if the report has it, e.g. after switching back to it
+        const selected = useStore.getState().personaId;
+        if (!list.some(persona => persona.personaId === selected) && list.length > 0) {
+          setLanguage(list[0].language);
+          setPersonaId(list[0].personaId);
+        }
+      } catch (err) {
+        console.error('Error loading personas:', err);
+        if (!cancelled) setError(true);
+      }
+    };
+
+    loadPersonas();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportKey, setPersonas, setPersonaId, setLanguage]);
+
+  if (error) {
+    return <div className="persona-picker persona-picker-error">{t('personasUnavailable')}</div>;
+  }
+
+  if (personas.length === 0) {
+    return null;
+  }
+
+  const inLanguage = personas.filter(persona => persona.language === language);
+  const options = inLanguage.length > 0 ? inLanguage : personas;
+
+  return (
+    <label className="persona-picker">
+      <span>{t('narrator')}</span>
+      <select
+        value={personaId ?? ''}
+        onChange={(e) => setPersonaId(e.target.value)}
+      >
+        {options.map(persona => (
+          <option key={persona.personaId} value={persona.personaId}>
+            {persona.name} · {persona.dialectName || persona.displayLanguage} · {persona.tone}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import useStore from '../store/useStore';
+import useTranslation from '../hooks/useTranslation';
+import { loadPlaybackSpeed, PLAYBACK_SPEEDS, savePlaybackSpeed } from '../utils/playbackSpeed';
+
+const SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+
+interface ReportOutline {
+  participantId: string;
+  showDynamicFeedbackSpeedControl: boolean;
+}
+
+/**
+ * Select how fast narration and answers are played, for reports with
+ * `showDynamicFeedbackSpeedControl`. The choice is remembered per participant;
+ * other reports play at normal speed.
+ */
+const SpeedControl = () => {
+  const { reportKey, playbackSpeed, setPlaybackSpeed } = useStore();
+  const { t } = useTranslation();
+  const [participantId, setParticipantId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOutline = async () => {
+      try {
+        const response = await fetch(`${SERVER_URL}/reports/${reportKey || 'default'}`);
+        if (!response.ok) {
+          throw new Error(`Failed to load report: ${response.status}`);
+        }
+        const outline: ReportOutline = await response.json();
+        if (cancelled) return;
+
+        const enabled = outline.showDynamicFeedbackSpeedControl;
+        setParticipantId(enabled ? outline.participantId : null);
+        setPlaybackSpeed(enabled ? loadPlaybackSpeed(outline.participantId) : 1);
+      } catch (err) {
+        console.error('Error loading report outline:', err);
+        if (!cancelled) {
+          setParticipantId(null);
+          setPlaybackSpeed(1);
+        }
+      }
+    };
+
+    loadOutline();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportKey, setPlaybackSpeed]);
+
+  if (!participantId) {
+    return null;
+  }
+
+  const changeSpeed = (speed: number) => {
+    setPlaybackSpeed(speed);
+    savePlaybackSpeed(participantId, speed);
+  };
+
+  return (
+    <label className="speed-control">
+      <span>{t('playbackSpeed')}</span>
+      <select
+        value={playbackSpeed}
+        onChange={(e) => changeSpeed(Number(e.target.value))}
+      >
+        {PLAYBACK_SPEEDS.map(speed => (
+          <option key={speed} value={speed}>
+            {speed}x
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default SpeedControl;
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import useStore from '../store/useStore';
+import useTranslation from '../hooks/useTranslation';
+
+const SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+
+// Table of contents as returned by GET /reports/:key/toc
+interface TocStep {
+  stepKey: string;
+  title: string;
+  heading?: string;
+  level: number;
+  tocSubIndex: number | null;
+}
+
+interface TocPage {
+  page: number;
+  pageCode: string;
+  pageTitle: string;
+  steps: TocStep[];
+}
+
+interface TocSection {
+  sectionKey: string | null;
+  sectionTitle: string | null;
+  pages: TocPage[];
+}
+
+interface ReportToc {
+  reportKey: string;
+  reportName: string;
+  sections: TocSection[];
+}
+
+/**
+ * Sidebar listing the report's sections, pages and the steps of the current page.
+ * Picking a page shows it (and moves a running narration there); picking a step
+ * narrates the page from that step. Pages narrated to the end are checked off.
+ */
+const TocSidebar = () => {
+  const { reportKey, pdfState, setPageNum, narratedPages, setNarrationJump } = useStore();
+  const { t } = useTranslation();
+  const [toc, setToc] = useState<ReportToc | null>(null);
+  const [error, setError] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadToc = async () => {
+      try {
+        setError(false);
+        const response = await fetch(`${SERVER_URL}/reports/${reportKey || 'default'}/toc`);
+        if (!response.ok) {
+          throw new Error(`Failed to load table of contents: ${response.status}`);
+        }
+        const data: ReportToc = await response.json();
+        if (!cancelled) setToc(data);
+      } catch (err) {
+        console.error('Error loading table of contents:', err);
+        if (!cancelled) setError(true);
+      }
+    };
+
+    loadToc();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportKey]);
+
+  // Pages the viewer can show; report pages may start at 0 for the cover
+  const isViewable = (pageNumber: number) =>
+    pageNumber >= 1 && (!pdfState.pageCount || pageNumber <= pdfState.pageCount);
+
+  const jumpTo = (pageNumber: number, stepKey?: string) => {
+    setPageNum(pageNumber);
+    setNarrationJump({ pageNumber, stepKey, start: Boolean(stepKey) });
+  };
+
+  return (
+    <aside className={`toc-sidebar ${collapsed ? 'collapsed' : ''}`}>
+      <div className="toc-header">
+        {!collapsed && <h2>{t('contents')}</h2>}
+        <button
+          className="toc-toggle"
+          onClick={() => setCollapsed(!collapsed)}
+          title={collapsed ? t('showContents') : t('hideContents')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="8" y1="6" x2="21" y2="6"></line>
+            <line x1="8" y1="12" x2="21" y2="12"></line>
+            <line x1="8" y1="18" x2="21" y2="18"></line>
+            <line x1="3" y1="6" x2="3.01" y2="6"></line>
+            <line x1="3" y1="12" x2="3.01" y2="12"></line>
+            <line x1="3" y1="18" x2="3.01" y2="18"></line>
+          </svg>
+        </button>
+      </div>
+
+      {!collapsed && error && <p className="toc-error">{t('contentsUnavailable')}</p>}
+
+      {!collapsed && toc && (
+        <nav className="toc-list">
+          {toc.sections.map(section => (
+            <div className="toc-section" key={section.sectionKey ?? 'unsectioned'}>
+              {section.sectionTitle && <h3 className="toc-section-title">{section.sectionTitle}</h3>}
+              <ul>
+                {section.pages.map(page => {
+                  const isCurrent = page.page === pdfState.pageNum;
+                  const isNarrated = narratedPages.includes(page.page);
+
+                  return (
+                    <li key={page.page} className="toc-page">
+                      <button
+                        className={`toc-page-button ${isCurrent ? 'active' : ''}`}
+                        onClick={() => jumpTo(page.page)}
+                        disabled={!isViewable(page.page)}
+                      >
+                        <span className="toc-page-number">{page.page}</span>
+                        <span className="toc-page-title">{page.pageTitle}</span>
+                        {isNarrated && <span className="toc-narrated" title={t('narrated')}>✓</span>}
+                      </button>
+
+                      {isCurrent && page.steps.length > 0 && (
+                        <ul className="toc-steps">
+                          {page.steps.map(step => (
+                            <li key={step.stepKey}>
+                              {step.heading && <div className="toc-step-heading">{step.heading}</div>}
+                              <button
+                                className={`toc-step level-${step.level}`}
+                                onClick={() => jumpTo(page.page, step.stepKey)}
+                                title={t('narrateFromStep')}
+                              >
+                                {step.title}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </nav>
+      )}
+    </aside>
+  );
+};
+
+export default TocSidebar;
@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import useStore from '../store/useStore';
 import useSocket from './useSocket';
+import { applyPlaybackSpeed } from '../utils/playbackSpeed';
 
 interface VoiceChatOptions {
   initialPrompt?: string;
+  /** Overrides the voice of the selected persona */
   voice?: string;
   debugMode?: boolean;
   disableVad?: boolean;
@@ -20,7 +22,9 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
   
   const initialPrompt = config.initialPrompt || '';
   
-  const { addMessage, setIsProcessing, setIsRecording } = useStore();
+  const { addMessage, setIsProcessing, setIsRecording, setRealtimeSessionId } = useStore();
+  const pageNum = useStore((state) => state.pdfState.pageNum);
+  const narrationStep = useStore((state) => state.narrationStep);
   const { socket, socketReady } = useSocket();
   
   // State variables
@@ -48,6 +52,23 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
     }
   }, [sessionId]);
   
+  // Keep the session's instructions about the page the participant is looking at
+  useEffect(() => {
+    if (!socket || !sessionId) return;
+    socket.emit('realtime-page-context', { sessionId, ...useStore.getState().getPageContext() });
+  }, [socket, sessionId, pageNum, narrationStep]);
+  
+  // Typed messages go to the session while it is connected
+  useEffect(() => {
+    if (connectionState !== 'connected' || !sessionId) return;
+    setRealtimeSessionId(sessionId);
+    return () => {
+      if (useStore.getState().realtimeSessionId === sessionId) {
+        setRealtimeSessionId(null);
+      }
+    };
+  }, [sessionId, connectionState, setRealtimeSessionId]);
+  
   // Debug mode
   const debugMode = config.debugMode ?? (import.meta.env.VITE_DEBUG_WEBRTC === 'true') ?? true;
   
@@ -138,6 +159,10 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
         socket.emit('start-realtime-session', { 
           initialPrompt,
           voice: config.voice,
+          documentKey: useStore.getState().reportKey,
+          personaId: useStore.getState().personaId,
+          language: useStore.getState().language,
+          ...useStore.getState().getPageContext(),
           disableVad: config.disableVad
         });
         debugLog(`📤 Sent session creation request with voice: ${config.voice || 'default'}, VAD ${config.disableVad ? 'disabled' : 'enabled'}`);
@@ -506,7 +531,7 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
       }
       
       debugLog(`Using session ID for commit: ${currentSessionId}`);
-      socket.emit('commit-audio-buffer', { sessionId: currentSessionId });
+      socket.emit('commit-audio-buffer', { sessionId: currentSessionId, ...useStore.getState().getPageContext() });
       debugLog('Sent commit-audio-buffer request');
       return true;
     } catch (error) {
@@ -543,7 +568,7 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
       
       debugLog(`Using session ID for response: ${currentSessionId}`);
       setIsProcessing(true);
-      socket.emit('create-response', { sessionId: currentSessionId });
+      socket.emit('create-response', { sessionId: currentSessionId, ...useStore.getState().getPageContext() });
       debugLog('Sent create-response request');
       return true;
     } catch (error) {
@@ -627,12 +652,15 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
           setIsProcessing(true);
           break;
           
-        case 'response.text.delta':
-          if (event.delta && event.delta.text) {
-            debugLog('Text delta:', event.delta.text);
-            addMessage(event.delta.text, 'bot', true);
+        case 'response.text.delta': {
+          // The API sends the text as the delta itself; older payloads wrapped it in delta.text
+          const textDelta = typeof event.delta === 'string' ? event.delta : event.delta?.text;
+          if (textDelta) {
+            debugLog('Text delta:', textDelta);
+            addMessage(textDelta, 'bot', true);
           }
           break;
+        }
           
         case 'response.audio_transcript.delta':
           // Handle transcript deltas (new in OpenAI realtime API)
@@ -745,6 +773,7 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
               // Play the audio
               debugLog('Creating Audio element and attempting playback...');
               const audio = new Audio(url);
+              applyPlaybackSpeed(audio);
               
               audio.onloadedmetadata = () => {
                 debugLog(`Audio metadata loaded - Duration: ${audio.duration}s`);
@@ -786,6 +815,10 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
           
         case 'response.audio_transcript.done':
           debugLog('Audio transcript complete');
+          // Show what was said, so the reply can be read as well as heard
+          if (event.transcript) {
+            addMessage(event.transcript, 'bot', false);
+          }
           break;
           
         case 'response.content_part.done':
@@ -939,6 +972,7 @@ const useRealtimeVoiceChat = (options: VoiceChatOptions | string = {}) => {
         try {
           debugLog('Playing audio from audio-stream event');
           const audio = new Audio(`data:audio/mp3;base64,${data.audio}`);
+          applyPlaybackSpeed(audio);
           audio.play().catch(err => {
             debugLog('Error playing audio from stream:', err);
           });
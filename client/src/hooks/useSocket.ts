@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import io, { Socket } from 'socket.io-client';
 import useStore from '../store/useStore';
+import { base64ToBytes, ChunkedAudioPlayer } from '../utils/chunkedAudioPlayer';
+import { applyPlaybackSpeed } from '../utils/playbackSpeed';
 
 // Global socket instance to ensure single connection across components
 let globalSocket: Socket | null = null;
@@ -27,9 +29,49 @@ interface PageSummary {
 // Add interface for audio response
 interface PageAudioResponse {
   audio: number[];
+  mimeType: string;
   pageNumber: number;
 }
 
+// Progress of a page summary, as sent with page-narration-progress
+export type PageNarrationStage = 'loading' | 'summarizing' | 'synthesizing' | 'ready' | 'completed';
+
+interface PageNarrationProgress {
+  pageNumber: number;
+  stage: PageNarrationStage;
+}
+
+interface PageNarrationError {
+  pageNumber: number;
+  error: string;
+}
+
+// One spoken sentence of an answer, as sent with ai-response-chunk or voice-chat-response-chunk in index order
+interface AnswerChunk {
+  index: number;
+  text: string;
+  audio: string; // base64
+  mimeType: string;
+}
+
+interface AnswerEnd {
+  text: string;
+  chunkCount: number;
+}
+
+interface VoiceChatTranscription {
+  sessionId: string;
+  transcription: string;
+}
+
+// The whole answer of a voice chat session, sent after its last voice-chat-response-chunk
+interface VoiceChatResponse {
+  sessionId: string;
+  transcription: string;
+  response: string;
+  chunkCount: number;
+}
+
 /**
  * Primary WebSocket connection manager for the entire application.
  * This hook creates and maintains a single global WebSocket connection
@@ -42,6 +84,7 @@ interface PageAudioResponse {
  */
 const useSocket = () => {
   const { addMessage, setIsProcessing, setIsConnected } = useStore();
+  const playbackSpeed = useStore((state) => state.playbackSpeed);
   const socketRef = useRef<Socket | null>(globalSocket);
   const [socketReady, setSocketReady] = useState<boolean>(globalSocket !== null && globalSocket.connected);
   
@@ -50,6 +93,11 @@ const useSocket = () => {
   const [isProcessingPage, setIsProcessingPage] = useState(false);
   const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
   const [isPaused, setIsPaused] = useState(false);
+  const [pageProgress, setPageProgress] = useState<PageNarrationProgress | null>(null);
+  
+  // Page this hook instance requested a summary for; page events for other pages
+  // belong to another component using the same socket
+  const pendingPageRef = useRef<number | null>(null);
   
   const createSocketConnection = useCallback(() => {
     // If we already have a connected socket, use it
@@ -184,7 +232,7 @@ const useSocket = () => {
           try {
             // Convert array back to Blob
             const audioArray = new Uint8Array(data.audio);
-            const audioBlob = new Blob([audioArray], { type: 'audio/mp3' });
+            const audioBlob = new Blob([audioArray], { type: data.mimeType || 'audio/mpeg' });
             
             // Create object URL for the blob
             const audioUrl = URL.createObjectURL(audioBlob);
@@ -192,6 +240,7 @@ const useSocket = () => {
             // Create audio element
             const audio = new Audio();
             audio.src = audioUrl;
+            applyPlaybackSpeed(audio);
             
             // Play audio
             audio.play().catch(err => {
@@ -214,6 +263,41 @@ const useSocket = () => {
         }
       });
       
+      // Answers are streamed sentence by sentence: the text grows as chunks arrive and
+      // their audio plays back to back; processing ends when the last chunk has played
+      const answerPlayer = new ChunkedAudioPlayer(() => setIsProcessing(false));
+
+      const playAnswerChunk = (data: AnswerChunk) => {
+        if (data.index === 0) {
+          answerPlayer.stop();
+          addMessage(data.text, 'bot', false);
+        } else {
+          addMessage(` ${data.text}`, 'bot', true);
+        }
+        answerPlayer.enqueue(base64ToBytes(data.audio));
+      };
+
+      socket.on('ai-response-chunk', playAnswerChunk);
+
+      socket.on('ai-response-end', (data: AnswerEnd) => {
+        console.log(`Received complete answer in ${data.chunkCount} chunks`);
+        answerPlayer.end();
+      });
+
+      // Voice chat sessions (process-audio) stream their answers the same way
+      socket.on('voice-chat-transcription', (data: VoiceChatTranscription) => {
+        if (data && data.transcription) {
+          addMessage(data.transcription, 'user', false);
+        }
+      });
+
+      socket.on('voice-chat-response-chunk', playAnswerChunk);
+
+      socket.on('voice-chat-response', (data: VoiceChatResponse) => {
+        console.log(`Received complete voice chat answer in ${data.chunkCount} chunks`);
+        answerPlayer.end();
+      });
+      
       socket.on('error', (error) => {
         console.error('Socket error:', error);
         
@@ -316,6 +400,11 @@ const useSocket = () => {
         audio: Array.from(audioData),
         isFinal,
         mimeType,
+        reportKey: useStore.getState().reportKey,
+        personaId: useStore.getState().personaId,
+        language: useStore.getState().language,
+        speed: useStore.getState().playbackSpeed,
+        ...useStore.getState().getPageContext(),
       });
       
       // Mark as processing if this is the final chunk
@@ -330,17 +419,41 @@ const useSocket = () => {
     }
   }, [setIsProcessing]);
   
-  // Function to send text input instead of audio
+  // Function to send text input instead of audio. With a live conversation session the
+  // message goes into it and the reply arrives as realtime events; otherwise it is answered
+  // like a spoken question
   const sendTextInput = useCallback((text: string): boolean => {
-    if (!socketRef.current || !socketRef.current.connected) {
+    const socket = socketRef.current;
+    if (!socket || !socket.connected) {
       console.error('Socket not connected, cannot send text');
       return false;
     }
     
+    const emitTextInput = () => socket.emit('text-input', {
+      text,
+      reportKey: useStore.getState().reportKey,
+      personaId: useStore.getState().personaId,
+      language: useStore.getState().language,
+      speed: useStore.getState().playbackSpeed,
+      ...useStore.getState().getPageContext(),
+    });
+    
     try {
       console.log('Sending text input:', text);
       setIsProcessing(true);
-      socketRef.current.emit('text-input', { text });
+      
+      const sessionId = useStore.getState().realtimeSessionId;
+      if (!sessionId) {
+        emitTextInput();
+        return true;
+      }
+      
+      socket.emit('realtime-text-input', { sessionId, text, ...useStore.getState().getPageContext() }, (response: { success?: boolean, error?: string }) => {
+        if (response?.error) {
+          console.warn('Realtime session could not take the message, answering it directly:', response.error);
+          emitTextInput();
+        }
+      });
       return true;
     } catch (error) {
       console.error('Error sending text:', error);
@@ -388,6 +501,7 @@ const useSocket = () => {
 
     // Handle page summary
     const handlePageSummary = (data: PageSummary) => {
+      if (data.pageNumber !== pendingPageRef.current) return;
       console.log('Received page summary:', data);
       setCurrentPageSummary(data);
       
@@ -399,16 +513,18 @@ const useSocket = () => {
 
     // Handle page audio response
     const handlePageAudioResponse = (data: PageAudioResponse) => {
+      if (data.pageNumber !== pendingPageRef.current) return;
       console.log(`Received audio for page ${data.pageNumber}, size: ${data.audio.length} bytes`);
       
       if (data.audio && data.audio.length > 0) {
         try {
           // Convert audio data to playable format
-          const audioBlob = new Blob([new Uint8Array(data.audio)], { type: 'audio/mpeg' });
+          const audioBlob = new Blob([new Uint8Array(data.audio)], { type: data.mimeType || 'audio/mpeg' });
           const audioUrl = URL.createObjectURL(audioBlob);
           
           // Create audio element
           const audio = new Audio(audioUrl);
+          applyPlaybackSpeed(audio);
           
           // Store the audio element for controlling playback
           setCurrentAudio(audio);
@@ -443,14 +559,32 @@ const useSocket = () => {
       }
     };
 
+    // Handle page summary progress
+    const handlePageProgress = (data: PageNarrationProgress) => {
+      if (data.pageNumber !== pendingPageRef.current) return;
+      setPageProgress(data);
+    };
+
+    // Handle page summary failure, e.g. a page without prompt data
+    const handlePageError = (data: PageNarrationError) => {
+      if (data.pageNumber !== pendingPageRef.current) return;
+      console.error(`Error narrating page ${data.pageNumber}:`, data.error);
+      setPageProgress(null);
+      setIsProcessingPage(false);
+    };
+
     // Add event listeners
     socketRef.current.on('page-summary', handlePageSummary);
     socketRef.current.on('page-audio-response', handlePageAudioResponse);
+    socketRef.current.on('page-narration-progress', handlePageProgress);
+    socketRef.current.on('page-narration-error', handlePageError);
 
     // Cleanup function
     return () => {
       socketRef.current?.off('page-summary', handlePageSummary);
       socketRef.current?.off('page-audio-response', handlePageAudioResponse);
+      socketRef.current?.off('page-narration-progress', handlePageProgress);
+      socketRef.current?.off('page-narration-error', handlePageError);
     };
   }, [socketRef.current, addMessage]);
 
@@ -464,11 +598,18 @@ const useSocket = () => {
     }
     
     // Set processing state
+    pendingPageRef.current = pageNumber;
+    setPageProgress(null);
     setIsProcessingPage(true);
     
     try {
       // Emit the summarize-page event
-      socketRef.current.emit('summarize-page', { pageNumber });
+      socketRef.current.emit('summarize-page', {
+        pageNumber,
+        reportKey: useStore.getState().reportKey,
+        personaId: useStore.getState().personaId,
+        language: useStore.getState().language,
+      });
       return true;
     } catch (error) {
       console.error('Error requesting page summary:', error);
@@ -477,6 +618,13 @@ const useSocket = () => {
     }
   };
   
+  // A new speed applies to the page summary being played
+  useEffect(() => {
+    if (currentAudio) {
+      applyPlaybackSpeed(currentAudio, playbackSpeed);
+    }
+  }, [currentAudio, playbackSpeed]);
+  
   // Add functions to control audio playback
   const pauseAudio = () => {
     if (currentAudio) {
@@ -514,6 +662,8 @@ const useSocket = () => {
     stopAudio,
     currentPageSummary,
     isProcessingPage,
+    currentAudio,
+    pageProgress,
     isPaused,
     reconnect: createSocketConnection
   };
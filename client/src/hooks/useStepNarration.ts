@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import useStore from '../store/useStore';
+import useSocket from './useSocket';
+import { base64ToBytes } from '../utils/chunkedAudioPlayer';
+import { applyPlaybackSpeed } from '../utils/playbackSpeed';
+
+// Step currently being narrated, as sent with narration-step-start
+export interface NarrationStep {
+  reportKey: string;
+  pageNumber: number;
+  stepKey: string;
+  title: string;
+  stepIndex: number;
+  stepCount: number;
+  text: string;
+}
+
+interface NarrationStepStartEvent extends NarrationStep {
+  audio: string; // base64
+  mimeType: string;
+  highlight: {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+    showHighlight: boolean;
+    printHighlight: boolean;
+  } | null;
+}
+
+interface NarrationStepEndEvent extends Omit<NarrationStep, 'text'> {
+  reason: 'completed' | 'skipped' | 'replayed' | 'stopped';
+}
+
+interface NarrationPageCompletedEvent {
+  reportKey: string;
+  pageNumber: number;
+  stepCount: number;
+}
+
+interface StepNarrationOptions {
+  onPageCompleted?: (pageNumber: number) => void;
+}
+
+/**
+ * Step-by-step narration of a page.
+ * The server sends one step at a time; this hook plays its audio and reports
+ * back when playback ends so the server can continue with the next step.
+ */
+const useStepNarration = ({ onPageCompleted }: StepNarrationOptions = {}) => {
+  const { addMessage, setNarrationHighlight, setNarrationStep } = useStore();
+  const playbackSpeed = useStore((state) => state.playbackSpeed);
+  const { socket } = useSocket();
+
+  const [currentStep, setCurrentStep] = useState<NarrationStep | null>(null);
+  const [isLoadingStep, setIsLoadingStep] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const onPageCompletedRef = useRef(onPageCompleted);
+
+  useEffect(() => {
+    onPageCompletedRef.current = onPageCompleted;
+  }, [onPageCompleted]);
+
+  const stopPlayback = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.onended = null;
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      audioRef.current = null;
+    }
+    setIsPaused(false);
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleStepStart = (data: NarrationStepStartEvent) => {
+      const { audio: audioBase64, mimeType, highlight, ...step } = data;
+      console.log(`[Narration] Step ${step.stepIndex + 1}/${step.stepCount} of page ${step.pageNumber}: ${step.title}`);
+
+      stopPlayback();
+      setCurrentStep(step);
+      setIsLoadingStep(false);
+      addMessage(step.text, 'bot', false);
+
+      setNarrationHighlight(highlight?.showHighlight
+        ? {
+          pageNumber: step.pageNumber,
+          top: highlight.top,
+          left: highlight.left,
+          width: highlight.width,
+          height: highlight.height,
+        }
+        : null);
+
+      const audioUrl = URL.createObjectURL(new Blob([base64ToBytes(audioBase64)], { type: mimeType || 'audio/mpeg' }));
+      const audio = new Audio(audioUrl);
+      applyPlaybackSpeed(audio);
+      audioRef.current = audio;
+
+      audio.onended = () => {
+        stopPlayback();
+        setIsLoadingStep(true);
+        socket.emit('narration-step-completed', { stepKey: step.stepKey });
+      };
+
+      audio.play().catch(err => {
+        console.error('[Narration] Error playing step audio:', err);
+      });
+    };
+
+    const handleStepEnd = (data: NarrationStepEndEvent) => {
+      // Completed steps already stopped on their own
+      if (data.reason !== 'completed') {
+        stopPlayback();
+      }
+      if (data.reason === 'stopped') {
+        setNarrationHighlight(null);
+        setCurrentStep(null);
+        setIsLoadingStep(false);
+      }
+    };
+
+    const handlePageCompleted = (data: NarrationPageCompletedEvent) => {
+      stopPlayback();
+      setNarrationHighlight(null);
+      setCurrentStep(null);
+      setIsLoadingStep(false);
+      onPageCompletedRef.current?.(data.pageNumber);
+    };
+
+    const handleNarrationError = (data: { pageNumber: number; stepKey?: string; error: string }) => {
+      console.error('[Narration] Error:', data);
+      setIsLoadingStep(false);
+    };
+
+    socket.on('narration-step-start', handleStepStart);
+    socket.on('narration-step-end', handleStepEnd);
+    socket.on('narration-page-completed', handlePageCompleted);
+    socket.on('narration-error', handleNarrationError);
+
+    return () => {
+      socket.off('narration-step-start', handleStepStart);
+      socket.off('narration-step-end', handleStepEnd);
+      socket.off('narration-page-completed', handlePageCompleted);
+      socket.off('narration-error', handleNarrationError);
+    };
+  }, [socket, addMessage, setNarrationHighlight, stopPlayback]);
+
+  // A new speed applies to the step being played
+  useEffect(() => {
+    if (audioRef.current) {
+      applyPlaybackSpeed(audioRef.current, playbackSpeed);
+    }
+  }, [playbackSpeed]);
+
+  // Share the narrated step, so questions can refer to it
+  useEffect(() => {
+    setNarrationStep(currentStep ? { pageNumber: currentStep.pageNumber, stepKey: currentStep.stepKey } : null);
+  }, [currentStep, setNarrationStep]);
+
+  // Stop audio and clear the highlight when the component using the hook unmounts
+  useEffect(() => () => {
+    stopPlayback();
+    setNarrationHighlight(null);
+    setNarrationStep(null);
+  }, [stopPlayback, setNarrationHighlight, setNarrationStep]);
+
+  const startPage = useCallback((pageNumber: number, stepKey?: string): boolean => {
+    if (!socket || !socket.connected) {
+      console.error('[Narration] Socket not connected');
+      return false;
+    }
+    setIsLoadingStep(true);
+    socket.emit('start-step-narration', {
+      pageNumber,
+      stepKey,
+      reportKey: useStore.getState().reportKey,
+      personaId: useStore.getState().personaId,
+      language: useStore.getState().language,
+    });
+    return true;
+  }, [socket]);
+
+  const skipStep = useCallback(() => {
+    setIsLoadingStep(true);
+    socket?.emit('skip-narration-step');
+  }, [socket]);
+
+  const replayStep = useCallback((stepKey?: string) => {
+    setIsLoadingStep(true);
+    socket?.emit('replay-narration-step', { stepKey });
+  }, [socket]);
+
+  const stop = useCallback(() => {
+    stopPlayback();
+    setNarrationHighlight(null);
+    setCurrentStep(null);
+    setIsLoadingStep(false);
+    socket?.emit('stop-step-narration');
+  }, [socket, stopPlayback, setNarrationHighlight]);
+
+  const pause = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      setIsPaused(true);
+    }
+  }, []);
+
+  const resume = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.play();
+      setIsPaused(false);
+    }
+  }, []);
+
+  return {
+    currentStep,
+    isLoadingStep,
+    isPaused,
+    startPage,
+    skipStep,
+    replayStep,
+    stop,
+    pause,
+    resume,
+  };
+};
+
+export default useStepNarration;
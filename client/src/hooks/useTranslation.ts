@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import useStore from '../store/useStore';
+import { DEFAULT_UI_LANGUAGE, StringKey, UI_STRINGS } from '../i18n/strings';
+
+/**
+ * Translate UI strings into the session language
+ */
+const useTranslation = () => {
+  const language = useStore((state) => state.language);
+
+  const t = useCallback((key: StringKey, params: Record<string, string | number> = {}) => {
+    const strings = UI_STRINGS[language] || UI_STRINGS[DEFAULT_UI_LANGUAGE];
+    return strings[key].replace(/\{(\w+)\}/g, (match, name) =>
+      name in params ? String(params[name]) : match
+    );
+  }, [language]);
+
+  return { t, language };
+};
+
+export default useTranslation;
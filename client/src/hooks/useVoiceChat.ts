@@ -2,6 +2,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { Socket } from 'socket.io-client';
 import useStore from '../store/useStore';
 import useSocket from './useSocket';
+import { applyPlaybackSpeed } from '../utils/playbackSpeed';
 
 interface UseVoiceChatOptions {
   debugMode?: boolean;
@@ -36,17 +37,18 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
   const { addMessage, setIsProcessing, setIsRecording } = useStore();
   
   // Get the socket instance from useSocket hook
-  const { socket, socketReady, sendAudio, reconnect, getConnectionStatus } = useSocket();
+  const { socket, socketReady, reconnect, getConnectionStatus } = useSocket();
   
   // Options with defaults
   const debugMode = options.debugMode || import.meta.env.VITE_DEBUG_WEBRTC === 'true';
   
   // State
-  const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [connectionState, setConnectionState] = useState<string>('disconnected');
   
   // Refs
+  // Voice chat session the questions go to; a ref, so ending it on unmount sees the current one
+  const sessionIdRef = useRef<string | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordingChunksRef = useRef<Blob[]>([]);
@@ -63,6 +65,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
   const playAudio = useCallback((audioSrc: string) => {
     try {
       const audio = new Audio(audioSrc);
+      applyPlaybackSpeed(audio);
       
       // Using a separate function to handle the promise
       const playPromise = audio.play();
@@ -121,7 +124,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
     // Session ended handler
     const handleSessionEnded = (data: any) => {
       debugLog('Session ended by server:', data);
-      setSessionId(null);
+      sessionIdRef.current = null;
       setIsRecording(false);
       setIsProcessing(false);
     };
@@ -153,6 +156,72 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
     };
   }, [socket, debugLog, setIsProcessing, setIsRecording]);
   
+  // A session answers for the report, persona and language it was started with,
+  // so switching any of them ends it and the next question starts a new one
+  const reportKey = useStore((state) => state.reportKey);
+  const personaId = useStore((state) => state.personaId);
+  const language = useStore((state) => state.language);
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (sessionId) {
+      debugLog(`Ending voice chat session ${sessionId} for a new report, persona or language`);
+      socket?.emit('end-voice-chat', { sessionId });
+      sessionIdRef.current = null;
+    }
+  }, [debugLog, socket, reportKey, personaId, language]);
+  
+  // Start a voice chat session for the current report, persona and language, or reuse the started one
+  const ensureSession = useCallback(async (): Promise<string> => {
+    if (sessionIdRef.current) {
+      return sessionIdRef.current;
+    }
+    if (!socket) {
+      throw new Error('Socket not available');
+    }
+    
+    const response = await new Promise<SessionResponse>((resolve) => {
+      socket.emit('start-voice-chat', {
+        documentKey: useStore.getState().reportKey ?? undefined,
+        personaId: useStore.getState().personaId ?? undefined,
+        language: useStore.getState().language,
+      }, resolve);
+    });
+    if (!response?.sessionId) {
+      throw new Error(response?.error || 'Failed to create session');
+    }
+    
+    debugLog(`Voice chat session started: ${response.sessionId}`);
+    sessionIdRef.current = response.sessionId;
+    return response.sessionId;
+  }, [debugLog, socket]);
+  
+  // Send a recorded question to the voice chat session; the answer comes back as
+  // voice-chat-response-chunk events, which useSocket plays as they arrive
+  const processAudio = useCallback(async (audio: Uint8Array, mimeType: string): Promise<boolean> => {
+    if (!socket) {
+      return false;
+    }
+    
+    const sessionId = await ensureSession();
+    socket.emit('process-audio', {
+      sessionId,
+      audio,
+      mimeType,
+      speed: useStore.getState().playbackSpeed,
+      ...useStore.getState().getPageContext(),
+    }, (response: { success?: boolean, error?: string }) => {
+      if (response?.error) {
+        debugLog('Voice chat could not answer:', response.error);
+        // The session may have expired on the server; the next question starts a new one
+        sessionIdRef.current = null;
+        setError(response.error);
+        setIsProcessing(false);
+      }
+    });
+    setIsProcessing(true);
+    return true;
+  }, [debugLog, socket, ensureSession, setIsProcessing]);
+  
   // Send audio chunk to server using the shared socket
   const sendAudioChunk = useCallback(async (audioBlob: Blob, isFinal: boolean = false) => {
     try {
@@ -188,9 +257,13 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       // Convert ArrayBuffer to Uint8Array for transmission
       const uint8Array = new Uint8Array(arrayBuffer);
       
-      // Use the sendAudio function from useSocket
-      debugLog(`Sending audio chunk: ${uint8Array.length} bytes, isFinal: ${isFinal}`);
-      const success = await sendAudio(uint8Array, isFinal, 'audio/webm');
+      // Only the whole recording is answered
+      if (!isFinal) {
+        return;
+      }
+      
+      debugLog(`Sending recording: ${uint8Array.length} bytes`);
+      const success = await processAudio(uint8Array, 'audio/webm');
       
       if (!success && isFinal) {
         debugLog('Failed to send final audio chunk');
@@ -206,7 +279,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
         setIsProcessing(false);
       }
     }
-  }, [debugLog, socket, sendAudio, reconnect, getConnectionStatus, setError, setIsProcessing]);
+  }, [debugLog, socket, processAudio, reconnect, getConnectionStatus, setError, setIsProcessing]);
   
   // Request microphone access
   const requestMicrophone = useCallback(async () => {
@@ -388,6 +461,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       }
       
       // Notify server to end the session
+      const sessionId = sessionIdRef.current;
       if (socket && sessionId) {
         await new Promise<void>((resolve) => {
           if (!socket) {
@@ -395,7 +469,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
             return;
           }
           
-          socket.emit('end-session', { sessionId }, () => {
+          socket.emit('end-voice-chat', { sessionId }, () => {
             resolve();
           });
           
@@ -405,7 +479,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       }
       
       // Reset state
-      setSessionId(null);
+      sessionIdRef.current = null;
       setIsRecording(false);
       setIsProcessing(false);
       
@@ -415,7 +489,7 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       debugLog('Error ending session:', err);
       return false;
     }
-  }, [debugLog, sessionId, socket, setIsProcessing, setIsRecording]);
+  }, [debugLog, socket, setIsProcessing, setIsRecording]);
   
   // Clean up resources when component unmounts
   useEffect(() => {
@@ -425,11 +499,6 @@ const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
     };
   }, [endSession]);
   
-  // Log session ID changes for debugging
-  useEffect(() => {
-    debugLog(`Session ID changed: ${sessionId || 'null'}`);
-  }, [debugLog, sessionId]);
-  
   // Return the public API
   return {
     isConnected: socketReady,
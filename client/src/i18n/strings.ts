@@ -0,0 +1,131 @@
+// UI strings per session language. Languages without a table fall back to English,
+// and `{name}` placeholders are filled in by useTranslation.
+
+const en = {
+  connectingToServer: 'Connecting to server...',
+  transcription: 'Transcription',
+  clearChat: 'Clear chat',
+  typeMessage: 'Type a question...',
+  sendMessage: 'Send',
+  language: 'Language',
+  narrator: 'Narrator',
+  playbackSpeed: 'Speed',
+  personasUnavailable: 'Personas unavailable',
+
+  recordHintBefore: 'Hold',
+  spaceKey: 'Space',
+  recordHintAfter: 'to record',
+  processing: 'Processing...',
+
+  narrationMode: 'Narration mode',
+  stepByStep: 'Step by step',
+  pageSummaries: 'Page summaries',
+  startNarration: 'Start Narration',
+  stopNarration: 'Stop Narration',
+  resume: 'Resume',
+  pause: 'Pause',
+  replay: 'Replay',
+  replayStep: 'Replay this step',
+  skip: 'Skip',
+  skipStep: 'Skip to the next step',
+  stageLoading: 'Loading page {page}...',
+  stageSummarizing: 'Summarizing page {page}...',
+  stageSynthesizing: 'Generating audio for page {page}...',
+  stageProcessing: 'Processing page {page}...',
+  stepStatus: 'Page {page} · Step {step} of {count}: {title}',
+  narratingPage: 'Narrating page {page} of {count}',
+
+  loadingPdf: 'Loading PDF...',
+  tryAgain: 'Try again',
+  previousPage: 'Previous page',
+  nextPage: 'Next page',
+  pageOf: 'Page {page} of {count}',
+  uploadPdf: 'Upload a PDF',
+  preparingNarration: 'Preparing narration for this document...',
+  narrationUnavailable: 'Narration could not be prepared for this document.',
+
+  contents: 'Contents',
+  showContents: 'Show contents',
+  hideContents: 'Hide contents',
+  contentsUnavailable: 'Contents unavailable',
+  narrated: 'Narrated',
+  narrateFromStep: 'Narrate from here',
+
+  micTitle: 'Microphone Access Required',
+  micBody: 'To use the voice chat feature, please allow access to your microphone in your browser settings.',
+  micHowTo: 'How to enable microphone access:',
+  micStep1: 'Click on the padlock or info icon in your browser\'s address bar',
+  micStep2: 'Find "Microphone" permissions in the site settings',
+  micStep3: 'Change the setting to "Allow"',
+  micStep4: 'Refresh the page',
+  close: 'Close',
+};
+
+export type StringKey = keyof typeof en;
+
+const ptBR: Record<StringKey, string> = {
+  connectingToServer: 'Conectando ao servidor...',
+  transcription: 'Transcrição',
+  clearChat: 'Limpar conversa',
+  typeMessage: 'Digite uma pergunta...',
+  sendMessage: 'Enviar',
+  language: 'Idioma',
+  narrator: 'Narrador',
+  playbackSpeed: 'Velocidade',
+  personasUnavailable: 'Narradores indisponíveis',
+
+  recordHintBefore: 'Segure',
+  spaceKey: 'Espaço',
+  recordHintAfter: 'para gravar',
+  processing: 'Processando...',
+
+  narrationMode: 'Modo de narração',
+  stepByStep: 'Passo a passo',
+  pageSummaries: 'Resumos das páginas',
+  startNarration: 'Iniciar narração',
+  stopNarration: 'Parar narração',
+  resume: 'Continuar',
+  pause: 'Pausar',
+  replay: 'Repetir',
+  replayStep: 'Repetir esta etapa',
+  skip: 'Pular',
+  skipStep: 'Pular para a próxima etapa',
+  stageLoading: 'Carregando a página {page}...',
+  stageSummarizing: 'Resumindo a página {page}...',
+  stageSynthesizing: 'Gerando o áudio da página {page}...',
+  stageProcessing: 'Processando a página {page}...',
+  stepStatus: 'Página {page} · Etapa {step} de {count}: {title}',
+  narratingPage: 'Narrando a página {page} de {count}',
+
+  loadingPdf: 'Carregando o PDF...',
+  tryAgain: 'Tentar novamente',
+  previousPage: 'Página anterior',
+  nextPage: 'Próxima página',
+  pageOf: 'Página {page} de {count}',
+  uploadPdf: 'Enviar um PDF',
+  preparingNarration: 'Preparando a narração deste documento...',
+  narrationUnavailable: 'Não foi possível preparar a narração deste documento.',
+
+  contents: 'Sumário',
+  showContents: 'Mostrar sumário',
+  hideContents: 'Ocultar sumário',
+  contentsUnavailable: 'Sumário indisponível',
+  narrated: 'Narrada',
+  narrateFromStep: 'Narrar a partir daqui',
+
+  micTitle: 'Acesso ao microfone necessário',
+  micBody: 'Para usar o chat por voz, permita o acesso ao microfone nas configurações do navegador.',
+  micHowTo: 'Como permitir o acesso ao microfone:',
+  micStep1: 'Clique no cadeado ou no ícone de informações na barra de endereço do navegador',
+  micStep2: 'Encontre a permissão "Microfone" nas configurações do site',
+  micStep3: 'Altere a configuração para "Permitir"',
+  micStep4: 'Atualize a página',
+  close: 'Fechar',
+};
+
+export const UI_STRINGS: Record<string, Record<StringKey, string>> = {
+  'en': en,
+  'pt-BR': ptBR,
+};
+
+export const DEFAULT_UI_LANGUAGE = 'en';
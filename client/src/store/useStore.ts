@@ -16,6 +16,47 @@ export interface PDFState {
   baseScale: number;
 }
 
+// Region of a page highlighted while a narration step plays, as fractions of the page size
+export interface NarrationHighlight {
+  pageNumber: number;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Step being narrated, as announced by narration-step-start
+export interface NarrationStepRef {
+  pageNumber: number;
+  stepKey: string;
+}
+
+// Page the participant is looking at, sent with questions so answers can refer to it
+export interface PageContext {
+  pageNumber: number;
+  stepKey?: string;
+}
+
+// Place in the report to narrate from, requested from the table of contents
+export interface NarrationJump {
+  pageNumber: number;
+  stepKey?: string;
+  // Start narrating even when narration is not running
+  start: boolean;
+}
+
+// Narrator persona as listed by GET /reports/:key/personas
+export interface Persona {
+  personaId: string;
+  name: string;
+  language: string;
+  displayLanguage: string;
+  dialectName?: string;
+  tone: string;
+  voice: string;
+  avatar: string | null;
+}
+
 interface AudioState {
   isRecording: boolean;
   isProcessing: boolean;
@@ -28,6 +69,10 @@ interface AppState {
   addMessage: (text: string, type: 'user' | 'bot', isStreaming: boolean) => void;
   clearMessages: () => void;
 
+  // Report the PDF belongs to, as returned by the server; null for the default report
+  reportKey: string | null;
+  setReportKey: (reportKey: string | null) => void;
+
   // PDF State
   pdfState: PDFState;
   setPDFDoc: (pdfDoc: any) => void;
@@ -40,6 +85,18 @@ interface AppState {
   setBaseScale: (baseScale: number) => void;
   zoomIn: () => void;
   zoomOut: () => void;
+  narrationHighlight: NarrationHighlight | null;
+  setNarrationHighlight: (narrationHighlight: NarrationHighlight | null) => void;
+
+  // Narration progress and jumps from the table of contents
+  narrationStep: NarrationStepRef | null;
+  setNarrationStep: (narrationStep: NarrationStepRef | null) => void;
+  narratedPages: number[];
+  markPageNarrated: (pageNumber: number) => void;
+  narrationJump: NarrationJump | null;
+  setNarrationJump: (narrationJump: NarrationJump | null) => void;
+  // Visible page, with the narrated step when it is on that page
+  getPageContext: () => PageContext;
 
   // Audio State
   audioState: AudioState;
@@ -50,6 +107,24 @@ interface AppState {
   // Connection state
   isConnected: boolean;
   setIsConnected: (isConnected: boolean) => void;
+
+  // Live conversation session that typed messages go to; null when none is connected
+  realtimeSessionId: string | null;
+  setRealtimeSessionId: (realtimeSessionId: string | null) => void;
+
+  // Narrator persona, used for narration and live Q&A
+  personas: Persona[];
+  setPersonas: (personas: Persona[]) => void;
+  personaId: string | null;
+  setPersonaId: (personaId: string | null) => void;
+
+  // Session language, e.g. 'en' or 'pt-BR'; used for speech, answers and UI strings
+  language: string;
+  setLanguage: (language: string) => void;
+
+  // Speed of narration and answers, 1 for normal speed
+  playbackSpeed: number;
+  setPlaybackSpeed: (playbackSpeed: number) => void;
 }
 
 const useStore = create<AppState>((set, get) => ({
@@ -95,6 +170,10 @@ const useStore = create<AppState>((set, get) => ({
   },
   clearMessages: () => set({ messages: [] }),
 
+  // Report; narration progress belongs to the previous report
+  reportKey: null,
+  setReportKey: (reportKey) => set({ reportKey, narratedPages: [], narrationStep: null, narrationJump: null }),
+
   // PDF State
   pdfState: {
     pdfDoc: null,
@@ -136,6 +215,27 @@ const useStore = create<AppState>((set, get) => ({
     const newScale = state.pdfState.baseScale * newZoomFactor;
     return { pdfState: { ...state.pdfState, zoomFactor: newZoomFactor, scale: newScale } };
   }),
+  narrationHighlight: null,
+  setNarrationHighlight: (narrationHighlight) => set({ narrationHighlight }),
+
+  // Narration progress
+  narrationStep: null,
+  setNarrationStep: (narrationStep) => set({ narrationStep }),
+  narratedPages: [],
+  markPageNarrated: (pageNumber) => set((state) => (
+    state.narratedPages.includes(pageNumber)
+      ? state
+      : { narratedPages: [...state.narratedPages, pageNumber] }
+  )),
+  narrationJump: null,
+  setNarrationJump: (narrationJump) => set({ narrationJump }),
+  getPageContext: () => {
+    const { pdfState, narrationStep } = get();
+    return {
+      pageNumber: pdfState.pageNum,
+      stepKey: narrationStep?.pageNumber === pdfState.pageNum ? narrationStep.stepKey : undefined,
+    };
+  },
 
   // Audio State
   audioState: {
@@ -156,6 +256,29 @@ const useStore = create<AppState>((set, get) => ({
   // Connection state
   isConnected: false,
   setIsConnected: (isConnected) => set({ isConnected }),
+  realtimeSessionId: null,
+  setRealtimeSessionId: (realtimeSessionId) => set({ realtimeSessionId }),
+
+  // Narrator persona
+  personas: [],
+  setPersonas: (personas) => set({ personas }),
+  personaId: null,
+  setPersonaId: (personaId) => set({ personaId }),
+
+  // Session language; switching keeps the persona only if it speaks the new language
+  language: 'en',
+  setLanguage: (language) => set((state) => {
+    const current = state.personas.find(persona => persona.personaId === state.personaId);
+    if (!current || current.language === language) {
+      return { language };
+    }
+    const replacement = state.personas.find(persona => persona.language === language);
+    return { language, personaId: replacement ? replacement.personaId : state.personaId };
+  }),
+
+  // Playback speed
+  playbackSpeed: 1,
+  setPlaybackSpeed: (playbackSpeed) => set({ playbackSpeed }),
 }));
 
 export default useStore; 
\ No newline at end of file
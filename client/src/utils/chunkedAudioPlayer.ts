@@ -0,0 +1,94 @@
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Plays the audio chunks of a streamed answer back to back without gaps.
+ * Chunks are decoded in arrival order and each one is scheduled on the same
+ * AudioContext to start exactly when the previous one ends.
+ */
+export class ChunkedAudioPlayer {
+  private context: AudioContext | null = null;
+  private decoding: Promise<void> = Promise.resolve();
+  private sources: AudioBufferSourceNode[] = [];
+  private nextStartTime = 0;
+  private ended = false;
+  // Bumped by stop() so chunks still decoding for a stopped answer are dropped
+  private generation = 0;
+
+  /**
+   * @param onIdle Called once the last chunk of an answer has finished playing
+   */
+  constructor(private readonly onIdle?: () => void) {}
+
+  // Queue a chunk right after the chunks already queued
+  enqueue(bytes: Uint8Array) {
+    const generation = this.generation;
+
+    this.decoding = this.decoding.then(async () => {
+      const context = this.getContext();
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+      // decodeAudioData detaches the buffer it is given, so it gets a copy
+      const buffer = await context.decodeAudioData(bytes.slice().buffer as ArrayBuffer);
+      if (generation !== this.generation) return;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      source.onended = () => {
+        this.sources = this.sources.filter(entry => entry !== source);
+        this.checkIdle();
+      };
+
+      const startTime = Math.max(context.currentTime, this.nextStartTime);
+      source.start(startTime);
+      this.nextStartTime = startTime + buffer.duration;
+      this.sources.push(source);
+    }).catch(error => {
+      console.error('[Audio] Error playing chunk:', error);
+    });
+  }
+
+  // No more chunks for this answer; onIdle follows once the queued ones have played
+  end() {
+    const generation = this.generation;
+    this.decoding = this.decoding.then(() => {
+      if (generation !== this.generation) return;
+      this.ended = true;
+      this.checkIdle();
+    });
+  }
+
+  // Stop playback and drop every queued chunk
+  stop() {
+    this.generation++;
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.sources = [];
+    this.nextStartTime = 0;
+    this.ended = false;
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  private checkIdle() {
+    if (this.ended && !this.sources.length) {
+      this.ended = false;
+      this.onIdle?.();
+    }
+  }
+}
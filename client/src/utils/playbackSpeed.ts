@@ -0,0 +1,34 @@
+import useStore from '../store/useStore';
+
+/** Speeds offered by the speed control */
+export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+const storageKey = (participantId: string) => `playbackSpeed:${participantId}`;
+
+/**
+ * Play an audio element at the chosen speed, keeping the voice at its natural pitch
+ */
+export const applyPlaybackSpeed = (audio: HTMLAudioElement, speed: number = useStore.getState().playbackSpeed) => {
+  audio.preservesPitch = true;
+  audio.playbackRate = speed;
+};
+
+/**
+ * The speed a participant chose before, 1 when they never did
+ */
+export const loadPlaybackSpeed = (participantId: string): number => {
+  try {
+    const speed = Number(localStorage.getItem(storageKey(participantId)));
+    return PLAYBACK_SPEEDS.includes(speed) ? speed : 1;
+  } catch {
+    return 1;
+  }
+};
+
+export const savePlaybackSpeed = (participantId: string, speed: number) => {
+  try {
+    localStorage.setItem(storageKey(participantId), speed.toString());
+  } catch (error) {
+    console.warn('Could not save the playback speed:', error);
+  }
+};
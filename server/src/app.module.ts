@@ -3,13 +3,25 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { VoiceChatModule } from './voice-chat/voice-chat.module';
+import { ReportsModule } from './reports/reports.module';
+import { NarrationModule } from './narration/narration.module';
+import { PromptsModule } from './prompts/prompts.module';
+import { PersonasModule } from './personas/personas.module';
+import { ContentModule } from './content/content.module';
+import { RetrievalModule } from './retrieval/retrieval.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ContentModule,
+    ReportsModule,
+    PromptsModule,
+    PersonasModule,
+    RetrievalModule,
     VoiceChatModule,
+    NarrationModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,191 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScoreItem } from '../reports/report.types';
+import { DEFAULT_LANGUAGE } from '../personas/language-library';
+
+/** Namespace used when a report or step names none */
+export const DEFAULT_CONTENT_NAMESPACE = 'development';
+
+/** A flat key→text map for one namespace and language */
+export type ContentBundle = Record<string, string>;
+
+/** Where to look a key up */
+export interface ContentLookup {
+  /** Content namespace, e.g. `development` from `header.defaultNamespace` */
+  namespace?: string;
+  /** Session language, e.g. `pt-BR` */
+  language?: string;
+  /** Fall back to the default language when the key is missing in the requested one (default: true) */
+  fallback?: boolean;
+}
+
+export interface ContentBundleSummary {
+  namespace: string;
+  language: string;
+  keys: number;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Localized authored content: template texts by `contentKey`, interpretation sentences
+ * by `fanContent` key and localized score names.
+ *
+ * Bundles are JSON files `<namespace>/<language>.json`, each a flat map of key to text.
+ * Bundles shipped in `content/` are loaded first; bundles in CONTENT_DIR add to them
+ * and win on conflicting keys. Bundles may be partial: a missing key falls back to the
+ * language's base language (`pt` for `pt-BR`) and then to the default language.
+ *
+ * Key conventions:
+ * - template text: the step's `template.contentKey`, e.g. `welcome.1.text`
+ * - interpretation sentence: `<fanContent key>.<slot>`, e.g. `fo.moderate.match.sentence1`
+ * - score name: `<category>.<score key>.name`, e.g. `traits.fo.name`
+ */
+@Injectable()
+export class ContentLibraryService implements OnModuleInit {
+  private readonly logger = new Logger(ContentLibraryService.name);
+  private readonly contentDir: string;
+  private readonly bundles = new Map<string, ContentBundle>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.contentDir = path.resolve(
+      this.configService.get<string>('CONTENT_DIR') || path.join(process.cwd(), 'data', 'content')
+    );
+  }
+
+  onModuleInit() {
+    this.loadBundles(path.join(process.cwd(), 'content'));
+    if (this.contentDir !== path.resolve(process.cwd(), 'content')) {
+      this.loadBundles(this.contentDir);
+    }
+
+    this.logger.log(`Content library ready with ${this.bundles.size} bundle(s)`);
+  }
+
+  /**
+   * Look up the text of a key
+   * @param key Content key
+   * @param lookup Namespace and language to look in
+   * @returns undefined when no bundle has the key
+   */
+  resolve(key: string, { namespace, language, fallback = true }: ContentLookup = {}): string | undefined {
+    if (!key) {
+      return undefined;
+    }
+
+    const ns = namespace || DEFAULT_CONTENT_NAMESPACE;
+    for (const candidate of this.languageChain(language, fallback)) {
+      const text = this.bundles.get(this.bundleId(ns, candidate))?.[key];
+      if (text !== undefined) {
+        return text;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Fill `{{name}}` placeholders of a template
+   * @param template Template text
+   * @param values Placeholder values
+   * @returns null when a placeholder has no value
+   */
+  render(template: string, values: Record<string, string | undefined>): string | null {
+    let complete = true;
+    const text = template.replace(PLACEHOLDER, (_match, name) => {
+      const value = values[name];
+      if (value === undefined || value === null) {
+        complete = false;
+        return '';
+      }
+      return value;
+    });
+
+    return complete ? text : null;
+  }
+
+  /**
+   * The authored interpretation sentences of a score, in `fanContent` order, e.g.
+   * the sentences describing a "moderate, matches the success profile" band of a trait
+   * @param item A scored trait, driver or competency
+   * @param lookup Namespace and language to look in
+   */
+  getFanSentences(item: ScoreItem, lookup: ContentLookup = {}): string[] {
+    const slots = Object.entries(item.fanContent || {})
+      .filter(([, key]) => typeof key === 'string' && key);
+
+    return slots
+      .map(([slot, key]) => this.resolve(`${key}.${slot}`, lookup))
+      .filter((sentence, index, sentences): sentence is string =>
+        Boolean(sentence) && sentences.indexOf(sentence) === index);
+  }
+
+  /**
+   * Localized name of a score, the name in the report when the library has none
+   * @param category Score category, e.g. `traits`
+   * @param item The score
+   * @param lookup Namespace and language to look in
+   */
+  getScoreName(category: string, item: ScoreItem, lookup: ContentLookup = {}): string {
+    return this.resolve(`${category}.${item.key}.name`, { ...lookup, fallback: false }) || item.name;
+  }
+
+  /**
+   * List the loaded bundles
+   */
+  listBundles(): ContentBundleSummary[] {
+    return Array.from(this.bundles.entries()).map(([id, bundle]) => {
+      const [namespace, language] = id.split('/');
+      return { namespace, language, keys: Object.keys(bundle).length };
+    });
+  }
+
+  // Requested language, its base language, then the default language
+  private languageChain(language: string | undefined, fallback: boolean): string[] {
+    const requested = language || DEFAULT_LANGUAGE;
+    const chain = [requested, requested.split('-')[0]];
+    if (fallback) {
+      chain.push(DEFAULT_LANGUAGE);
+    }
+    return chain.filter((entry, index) => chain.indexOf(entry) === index);
+  }
+
+  private bundleId(namespace: string, language: string): string {
+    return `${namespace}/${language}`;
+  }
+
+  /**
+   * Load every `<namespace>/<language>.json` under a directory, skipping invalid files
+   */
+  private loadBundles(dir: string) {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const namespaceDir = path.join(dir, entry.name);
+      for (const file of fs.readdirSync(namespaceDir)) {
+        if (path.extname(file) !== '.json') continue;
+
+        const filePath = path.join(namespaceDir, file);
+        try {
+          const bundle = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+          if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) {
+            throw new Error('expected an object of key to text');
+          }
+
+          const texts = Object.entries(bundle).filter(([, text]) => typeof text === 'string');
+          const id = this.bundleId(entry.name, path.basename(file, '.json'));
+          this.bundles.set(id, { ...this.bundles.get(id), ...Object.fromEntries(texts) as ContentBundle });
+          this.logger.log(`Loaded content bundle ${id} (${texts.length} keys) from ${filePath}`);
+        } catch (error) {
+          this.logger.warn(`Skipping content bundle ${filePath}: ${error.message}`);
+        }
+      }
+    }
+  }
+}
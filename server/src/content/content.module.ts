@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ContentLibraryService } from './content-library.service';
+
+@Module({
+  providers: [ContentLibraryService],
+  exports: [ContentLibraryService]
+})
+export class ContentModule {}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { NarrationCacheService } from './narration-cache.service';
+
+@Module({
+  providers: [NarrationCacheService],
+  exports: [NarrationCacheService]
+})
+export class NarrationCacheModule {}
@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedNarration, contentHash, NarrationCacheKey, NarrationCacheService } from './narration-cache.service';
+
+describe('NarrationCacheService', () => {
+  let cacheDir: string;
+  let cache: NarrationCacheService;
+
+  const key = (overrides: Partial<NarrationCacheKey> = {}): NarrationCacheKey => ({
+    reportKey: 'report-1',
+    entry: 'page-2',
+    personaId: 'en:lin',
+    voice: 'coral',
+    language: 'en',
+    contentHash: contentHash('Page title', 'Page content'),
+    ...overrides,
+  });
+
+  const narration = (text: string): CachedNarration => ({ text, audio: Buffer.from(`audio of ${text}`), mimeType: 'audio/mpeg' });
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'narration-cache-'));
+    cache = new NarrationCacheService(new ConfigService({ NARRATION_CACHE_DIR: cacheDir }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('creates a narration on a miss and reads it back on a hit', async () => {
+    const create = jest.fn(async () => narration('Summary'));
+
+    const first = await cache.getOrCreate(key(), create);
+    const second = await cache.getOrCreate(key(), create);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(narration('Summary'));
+    expect(second).toEqual(narration('Summary'));
+  });
+
+  it('regenerates an entry when its content changes', async () => {
+    await cache.getOrCreate(key(), async () => narration('Old summary'));
+
+    expect(await cache.get(key({ contentHash: contentHash('Page title', 'New content') }))).toBeNull();
+
+    const updated = await cache.getOrCreate(key({ contentHash: contentHash('Page title', 'New content') }), async () => narration('New summary'));
+    expect(updated.text).toBe('New summary');
+    expect(await cache.get(key())).toBeNull();
+  });
+
+  it('keeps separate entries per persona, voice and language', async () => {
+    await cache.set(key(), narration('Lin'));
+    await cache.set(key({ personaId: 'en:aisha' }), narration('Aisha'));
+    await cache.set(key({ language: 'pt-BR' }), narration('Lin in Portuguese'));
+
+    expect((await cache.get(key())).text).toBe('Lin');
+    expect((await cache.get(key({ personaId: 'en:aisha' }))).text).toBe('Aisha');
+    expect((await cache.get(key({ language: 'pt-BR' }))).text).toBe('Lin in Portuguese');
+    expect(await cache.get(key({ voice: 'sage' }))).toBeNull();
+  });
+
+  it('shares one creation between concurrent requests for an entry', async () => {
+    const create = jest.fn(async () => narration('Summary'));
+
+    const results = await Promise.all([cache.getOrCreate(key(), create), cache.getOrCreate(key(), create)]);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(results[1]).toEqual(results[0]);
+  });
+
+  it('does not store a narration that failed to be created', async () => {
+    await expect(cache.getOrCreate(key(), async () => {
+      throw new Error('TTS unavailable');
+    })).rejects.toThrow('TTS unavailable');
+
+    expect(await cache.get(key())).toBeNull();
+    expect((await cache.getOrCreate(key(), async () => narration('Retry'))).text).toBe('Retry');
+  });
+
+  it('regenerates entries written without an audio type', async () => {
+    await cache.set(key(), narration('Summary'));
+    const [metaFile] = fs.readdirSync(path.join(cacheDir, 'report-1')).filter(file => file.endsWith('.json'));
+    const metaPath = path.join(cacheDir, 'report-1', metaFile);
+    const { mimeType, ...meta } = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+    fs.writeFileSync(metaPath, JSON.stringify(meta));
+
+    expect(mimeType).toBe('audio/mpeg');
+    expect(await cache.get(key())).toBeNull();
+  });
+
+  it('always creates when the cache is off', async () => {
+    cache = new NarrationCacheService(new ConfigService({ NARRATION_CACHE_DIR: cacheDir, NARRATION_CACHE: 'off' }));
+    const create = jest.fn(async () => narration('Summary'));
+
+    await cache.getOrCreate(key(), create);
+    await cache.getOrCreate(key(), create);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+});
+
+describe('contentHash', () => {
+  it('changes when any part changes and treats missing parts as empty', () => {
+    expect(contentHash('a', 'b')).toBe(contentHash('a', 'b'));
+    expect(contentHash('a', 'b')).not.toBe(contentHash('ab'));
+    expect(contentHash('a', undefined)).toBe(contentHash('a', ''));
+  });
+});
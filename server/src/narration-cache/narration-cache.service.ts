@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** What a narration was made for */
+export interface NarrationCacheKey {
+  reportKey: string;
+  /** `page-3` for a page summary, the step key for a step */
+  entry: string;
+  /** Persona narrating, empty when the report has no personas; personas can share a voice */
+  personaId: string;
+  voice: string;
+  language: string;
+  /** Hash of everything the narration is generated from, see `contentHash` */
+  contentHash: string;
+}
+
+/** Narration text and its synthesized audio */
+export interface CachedNarration {
+  text: string;
+  audio: Buffer;
+  /** MIME type of the audio, which depends on the TTS provider that made it */
+  mimeType: string;
+}
+
+// Stored next to the audio; a different contentHash means the report changed since
+interface CacheEntryMeta {
+  contentHash: string;
+  text: string;
+  mimeType: string;
+  createdAt: string;
+}
+
+/**
+ * Hash the inputs of a narration, e.g. the step text and the persona's instructions
+ * @param parts Everything the narration depends on
+ */
+export const contentHash = (...parts: (string | undefined)[]): string =>
+  createHash('sha256').update(parts.map(part => part || '').join('\u0000')).digest('hex').slice(0, 16);
+
+/**
+ * Disk-backed cache of narration text and audio, so static report content goes through
+ * the LLM and TTS once per persona and language. Entries live in
+ * `<NARRATION_CACHE_DIR>/<reportKey>/` and are replaced when the content they were made
+ * from changes.
+ */
+@Injectable()
+export class NarrationCacheService {
+  private readonly logger = new Logger(NarrationCacheService.name);
+  private readonly cacheDir: string;
+  private readonly enabled: boolean;
+  // Narrations being created, so concurrent requests for the same entry share one LLM and TTS call
+  private readonly pending = new Map<string, Promise<CachedNarration>>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.cacheDir = path.resolve(
+      this.configService.get<string>('NARRATION_CACHE_DIR') || path.join(process.cwd(), 'data', 'narration-cache')
+    );
+    this.enabled = this.configService.get<string>('NARRATION_CACHE') !== 'off';
+  }
+
+  /**
+   * Get a cached narration, or create and store it
+   * @param key What the narration is for
+   * @param create Generates the narration on a cache miss
+   */
+  async getOrCreate(key: NarrationCacheKey, create: () => Promise<CachedNarration>): Promise<CachedNarration> {
+    if (!this.enabled) {
+      return create();
+    }
+
+    const entryPath = this.entryPath(key);
+    const cached = await this.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    if (!this.pending.has(entryPath)) {
+      const created = create()
+        .then(async narration => {
+          await this.set(key, narration);
+          return narration;
+        })
+        .finally(() => this.pending.delete(entryPath));
+      this.pending.set(entryPath, created);
+    }
+    return this.pending.get(entryPath);
+  }
+
+  /**
+   * Read a narration from the cache
+   * @param key What the narration is for
+   * @returns null when there is no entry or it was made from other content
+   */
+  async get(key: NarrationCacheKey): Promise<CachedNarration | null> {
+    const entryPath = this.entryPath(key);
+
+    try {
+      const meta: CacheEntryMeta = JSON.parse(await fs.promises.readFile(`${entryPath}.json`, 'utf-8'));
+      // Entries written before the audio type was recorded can't be labelled and are made again
+      if (meta.contentHash !== key.contentHash || !meta.mimeType) {
+        this.logger.log(`Narration ${key.reportKey}/${key.entry} changed, regenerating`);
+        return null;
+      }
+
+      const audio = await fs.promises.readFile(`${entryPath}.audio`);
+      this.logger.debug(`Narration cache hit: ${key.reportKey}/${key.entry} (${key.personaId || key.voice}, ${key.language})`);
+      return { text: meta.text, audio, mimeType: meta.mimeType };
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(`Unreadable narration cache entry ${entryPath}: ${error.message}`);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Store a narration, replacing the entry made from earlier content
+   * @param key What the narration is for
+   * @param narration Text and audio
+   */
+  async set(key: NarrationCacheKey, { text, audio, mimeType }: CachedNarration): Promise<void> {
+    const entryPath = this.entryPath(key);
+    const meta: CacheEntryMeta = { contentHash: key.contentHash, text, mimeType, createdAt: new Date().toISOString() };
+
+    try {
+      await fs.promises.mkdir(path.dirname(entryPath), { recursive: true });
+      // An entry only counts once its metadata is written, so the old one goes first
+      await fs.promises.rm(`${entryPath}.json`, { force: true });
+      await fs.promises.writeFile(`${entryPath}.audio`, audio);
+      await fs.promises.writeFile(`${entryPath}.json`, JSON.stringify(meta, null, 2));
+    } catch (error) {
+      // A narration that can't be cached is still played
+      this.logger.warn(`Could not cache narration ${key.reportKey}/${key.entry}: ${error.message}`);
+    }
+  }
+
+  // One entry per report, page or step, persona, voice and language; the content hash is checked on read
+  private entryPath({ reportKey, entry, personaId, voice, language }: NarrationCacheKey): string {
+    const name = [entry, personaId, voice, language].map(part => part.replace(/[^\w-]+/g, '_')).join('.');
+    return path.join(this.cacheDir, reportKey.replace(/[^\w-]+/g, '_'), name);
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Logger,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ReportSummary } from '../reports/reports.service';
+import { NarrationScriptService } from './narration-script.service';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+@Controller('reports')
+export class NarrationScriptController {
+  private readonly logger = new Logger(NarrationScriptController.name);
+
+  constructor(private readonly narrationScriptService: NarrationScriptService) {}
+
+  /**
+   * Upload a PDF without prompt-data as multipart form data and narrate it.
+   * `pdf` is the document; `title` and `language` are optional text fields.
+   */
+  @Post('generate')
+  @UseInterceptors(FileInterceptor('pdf', { limits: { fileSize: MAX_UPLOAD_BYTES } }))
+  async generateReport(
+    @UploadedFile() pdf?: Express.Multer.File,
+    @Body('title') title?: string,
+    @Body('language') language?: string,
+  ): Promise<ReportSummary> {
+    if (!pdf) {
+      throw new BadRequestException('A "pdf" file is required');
+    }
+    if (pdf.buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new BadRequestException('The "pdf" file is not a PDF document');
+    }
+
+    this.logger.log(`Generating narration for ${pdf.originalname} (${pdf.size} bytes)`);
+    return this.narrationScriptService.generateReport(pdf.buffer, {
+      title: title || pdf.originalname?.replace(/\.pdf$/i, ''),
+      language,
+    });
+  }
+}
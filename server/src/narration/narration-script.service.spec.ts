@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReportsRepository } from '../reports/reports.repository';
+import { ReportsService } from '../reports/reports.service';
+import { extractPdfPages } from '../retrieval/pdf-text.extractor';
+import { VoiceChatService } from '../voice-chat/voice-chat.service';
+import { NarrationScriptService } from './narration-script.service';
+
+jest.mock('../retrieval/pdf-text.extractor');
+
+const pageText = (pageNumber: number) =>
+  `Page ${pageNumber} explains how the participant's drivers and competencies shape the way they work with others every day.`;
+
+describe('NarrationScriptService.generateReport', () => {
+  let reportsDir: string;
+  let writePageScript: jest.Mock;
+  let service: NarrationScriptService;
+
+  beforeEach(() => {
+    reportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'narration-script-'));
+    jest.mocked(extractPdfPages).mockResolvedValue([1, 2, 3].map(pageNumber => ({ pageNumber, text: pageText(pageNumber) })));
+    writePageScript = jest.fn(async (pageNumber: number) => ({
+      pageTitle: `Page ${pageNumber}`,
+      steps: [{ title: 'Overview', content: `Narration of page ${pageNumber}.` }],
+    }));
+
+    const voiceChatService: jest.Mocked<Pick<VoiceChatService, 'writePageScript'>> = { writePageScript };
+    const reportsService = new ReportsService(new ReportsRepository(new ConfigService({ REPORTS_DIR: reportsDir })));
+    service = new NarrationScriptService(reportsService, voiceChatService as unknown as VoiceChatService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(reportsDir, { recursive: true, force: true });
+  });
+
+  it('stores one page per PDF page, numbered like the viewer, with no missing pages', async () => {
+    const summary = await service.generateReport(Buffer.from('%PDF-1.4'), { title: 'Uploaded', language: 'en' });
+
+    expect(summary).toMatchObject({ pageCount: 3, pages: 3, steps: 3, missingPages: [] });
+    expect(writePageScript.mock.calls.map(([pageNumber]) => pageNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('lists pages without narration as missing', async () => {
+    writePageScript.mockImplementation(async (pageNumber: number) => {
+      if (pageNumber === 2) throw new Error('LLM unavailable');
+      return { pageTitle: `Page ${pageNumber}`, steps: [{ title: 'Overview', content: `Narration of page ${pageNumber}.` }] };
+    });
+
+    const summary = await service.generateReport(Buffer.from('%PDF-1.4'));
+
+    expect(summary).toMatchObject({ pageCount: 3, pages: 2, missingPages: [2] });
+  });
+});
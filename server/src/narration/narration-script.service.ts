@@ -0,0 +1,166 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ReportsService, ReportSummary } from '../reports/reports.service';
+import { ReportDocument, ReportPage, ReportStep } from '../reports/report.types';
+import { VoiceChatService } from '../voice-chat/voice-chat.service';
+import { extractPdfPages, PdfPageText } from '../retrieval/pdf-text.extractor';
+import { DEFAULT_LANGUAGE, languageName } from '../personas/language-library';
+
+/** Options for narrating an uploaded PDF */
+export interface NarrationScriptOptions {
+  /** Report name, e.g. the file name */
+  title?: string;
+  /** Language to write the narration in */
+  language?: string;
+}
+
+// Pages with less text are covers, dividers or full-page images and get no narration
+const MIN_PAGE_WORDS = 15;
+// Pages written at the same time
+const SCRIPT_CONCURRENCY = 3;
+// Attempts per page before it is left without narration
+const SCRIPT_ATTEMPTS = 2;
+
+/**
+ * Narration for PDFs that come without prompt-data: the text of every page is turned
+ * into steps by the LLM, and the result is stored as a report like any authored one,
+ * so step narration, the table of contents and Q&A work on it unchanged.
+ */
+@Injectable()
+export class NarrationScriptService {
+  private readonly logger = new Logger(NarrationScriptService.name);
+  // Reports being written, so the same PDF uploaded twice at once is only narrated once
+  private readonly pending = new Map<string, Promise<ReportSummary>>();
+
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly voiceChatService: VoiceChatService,
+  ) {}
+
+  /**
+   * Write narration for a PDF and store it as a report.
+   * The report key comes from the PDF contents, so uploading the same PDF again
+   * returns the stored report without writing it again, or waits for the one being written.
+   * @param pdf PDF file contents
+   * @param options Report name and narration language
+   */
+  async generateReport(pdf: Buffer, options: NarrationScriptOptions = {}): Promise<ReportSummary> {
+    const key = `pdf-${createHash('sha256').update(pdf).digest('hex').slice(0, 16)}`;
+    const existing = this.reportsService.listSummaries().find(summary => summary.reportKey === key);
+    if (existing) {
+      this.logger.log(`Narration for ${key} already exists, reusing it`);
+      return existing;
+    }
+
+    if (!this.pending.has(key)) {
+      const written = this.writeReport(key, pdf, options).finally(() => this.pending.delete(key));
+      this.pending.set(key, written);
+    } else {
+      this.logger.log(`Narration for ${key} is already being written, waiting for it`);
+    }
+    return this.pending.get(key);
+  }
+
+  private async writeReport(key: string, pdf: Buffer, options: NarrationScriptOptions): Promise<ReportSummary> {
+    const started = Date.now();
+    const language = options.language || DEFAULT_LANGUAGE;
+
+    let pdfPages: PdfPageText[];
+    try {
+      pdfPages = await extractPdfPages(pdf);
+    } catch (error) {
+      this.logger.warn(`Could not read the text of ${key}: ${error.message}`);
+      throw new BadRequestException(`The "pdf" file could not be read: ${error.message}`);
+    }
+
+    const narrated = pdfPages.filter(page => page.text.split(/\s+/).filter(Boolean).length >= MIN_PAGE_WORDS);
+    this.logger.log(`Writing narration for ${key}: ${narrated.length} of ${pdfPages.length} pages have text`);
+
+    const pages = await this.mapConcurrently(narrated, page => this.writePageOrSkip(key, page, language));
+    // Storing a report without narration would keep the PDF from being narrated when uploaded again
+    if (narrated.length && pages.every(page => !page)) {
+      throw new Error(`Narration could not be written for any page of ${key}`);
+    }
+    const document = this.buildDocument(key, pdfPages.length, pages.filter(page => page?.steps.length), language, options.title);
+
+    const summary = this.reportsService.createReport(document, pdf);
+    this.logger.log(`Generated report ${key}: ${summary.pages} pages, ${summary.steps} steps in ${Date.now() - started}ms`);
+    return summary;
+  }
+
+  // A page the LLM keeps failing on is left without narration rather than failing the upload
+  private async writePageOrSkip(key: string, page: PdfPageText, language: string): Promise<ReportPage | null> {
+    for (let attempt = 1; attempt <= SCRIPT_ATTEMPTS; attempt++) {
+      try {
+        return await this.writePage(key, page, language);
+      } catch (error) {
+        this.logger.warn(`Writing narration for page ${page.pageNumber} of ${key} failed (attempt ${attempt}/${SCRIPT_ATTEMPTS}): ${error.message}`);
+      }
+    }
+    return null;
+  }
+
+  private async writePage(key: string, { pageNumber, text }: PdfPageText, language: string): Promise<ReportPage> {
+    const page = pageNumber.toString();
+    const pageCode = `page${pageNumber}`;
+    const { pageTitle, steps } = await this.voiceChatService.writePageScript(pageNumber, text, language);
+
+    return {
+      liveReportKey: key,
+      page,
+      pageCode,
+      pageTitle,
+      showPage: page,
+      steps: steps.map(({ title, content }, index): ReportStep => ({
+        stepKey: `${key}-${pageNumber}-${index}`,
+        page: pageNumber,
+        pageCode,
+        pageTitle,
+        sortOrder: index,
+        title,
+        content,
+        template: { title, content, renderer: 'text', showHighlight: false, highlight: null },
+      })),
+    };
+  }
+
+  private buildDocument(key: string, pageCount: number, pages: ReportPage[], language: string, title?: string): ReportDocument {
+    const reportName = title || 'Uploaded document';
+
+    return {
+      liveReportKey: key,
+      participantId: key,
+      documentKey: key,
+      documentName: reportName,
+      language,
+      languages: [{ language, displayLanguage: languageName(language), persona: 'Liv', gender: 'F', tone: 'Original' }],
+      header: {
+        liveReportKey: key,
+        reportName,
+        documentName: reportName,
+        // Pages are numbered like the viewer, from 1, as the report has no cover page 0
+        pages: pageCount,
+        language,
+      },
+      pages,
+      sections: [],
+      scores: { traits: [], drivers: [], competencies: [] },
+    };
+  }
+
+  // Run a task per item with at most SCRIPT_CONCURRENCY running, keeping the order of the items
+  private async mapConcurrently<T, R>(items: T[], task: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(SCRIPT_CONCURRENCY, items.length) }, worker));
+    return results;
+  }
+}
@@ -0,0 +1,531 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  OnGatewayDisconnect,
+  MessageBody,
+  ConnectedSocket
+} from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { Injectable, Logger } from '@nestjs/common';
+import { NarrationService } from './narration.service';
+import { ReportsService } from '../reports/reports.service';
+import { ReportStep } from '../reports/report.types';
+import { PageReference, toPageReference } from '../reports/page-context.builder';
+import { VoiceChatService } from '../voice-chat/voice-chat.service';
+import { ConversationMemory } from '../voice-chat/conversation-memory';
+import { toSpeechSpeed } from '../voice-chat/providers/speech-speed';
+import {
+  NarrationPageCompletedEvent,
+  NarrationStepEndEvent,
+  NarrationStepEndReason,
+  NarrationStepInfo,
+  NarrationStepStartEvent,
+  PageNarrationErrorEvent,
+  PageNarrationProgressEvent,
+  PageNarrationStage,
+  RenderedStep,
+} from './narration.types';
+
+// Whisper rejects uploads above 25 MB
+const MAX_STREAMED_AUDIO_BYTES = 25 * 1024 * 1024;
+
+interface StreamedAudio {
+  chunks: Buffer[];
+  size: number;
+  mimeType: string;
+}
+
+// Questions and answers of one client about one report, so follow-up questions make sense
+interface Conversation {
+  reportKey: string;
+  memory: ConversationMemory;
+}
+
+interface StepNarrationSession {
+  reportKey: string;
+  personaId?: string;
+  language: string;
+  pageNumber: number;
+  steps: ReportStep[];
+  index: number;
+  // Incremented whenever the active step changes, so late TTS results for an old step are dropped
+  generation: number;
+  rendered: Map<string, Promise<RenderedStep>>;
+}
+
+/**
+ * Narration socket protocol.
+ *
+ * Page summaries (`summarize-page` → `page-summary` + `page-audio-response`) and
+ * spoken or typed questions (`streaming-audio`, `text-input` → `ai-response-chunk`s +
+ * `ai-response-end`) follow the contract used by the client's useSocket hook. Questions
+ * are answered with the client's earlier questions and answers about the same report.
+ *
+ * Step-by-step narration walks a page's `steps[]` in `sortOrder`, sending each
+ * step's audio with `narration-step-start` and waiting for the client to report
+ * playback finished before moving on. Clients may skip or replay a single step.
+ */
+@WebSocketGateway({
+  cors: {
+    origin: ['http://localhost:5173', process.env.CLIENT_URL].filter(Boolean),
+    credentials: true
+  }
+})
+@Injectable()
+export class NarrationGateway implements OnGatewayDisconnect {
+  private readonly logger = new Logger(NarrationGateway.name);
+  private readonly stepSessions = new Map<string, StepNarrationSession>();
+  private readonly audioStreams = new Map<string, StreamedAudio>();
+  private readonly conversations = new Map<string, Conversation>();
+
+  constructor(
+    private readonly narrationService: NarrationService,
+    private readonly reportsService: ReportsService,
+    private readonly voiceChatService: VoiceChatService,
+  ) {
+    this.logger.log('Narration Gateway initialized');
+  }
+
+  handleDisconnect(client: Socket) {
+    if (this.stepSessions.delete(client.id)) {
+      this.logger.log(`Cleaned up step narration for disconnected client ${client.id}`);
+    }
+    this.audioStreams.delete(client.id);
+    this.conversations.delete(client.id);
+  }
+
+  /**
+   * Summarize a page and send the summary text followed by its audio
+   */
+  @SubscribeMessage('summarize-page')
+  async handleSummarizePage(
+    @MessageBody() data: { pageNumber: number, reportKey?: string, personaId?: string, language?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const pageNumber = Number(data?.pageNumber);
+
+    try {
+      if (!Number.isInteger(pageNumber)) {
+        throw new Error('Page number is required');
+      }
+
+      this.logger.log(`Summarizing page ${pageNumber} for client ${client.id}`);
+
+      const { summary, audioResponse, audioMimeType, pageTitle, pageCount } = await this.voiceChatService.summarizePageContent(
+        pageNumber,
+        this.reportsService.resolveReportKey({ documentKey: data.reportKey }),
+        stage => this.emitPageProgress(client, pageNumber, stage),
+        data.personaId,
+        data.language,
+      );
+
+      client.emit('page-summary', {
+        text: summary,
+        pageNumber,
+        pageTitle,
+        pageCount
+      });
+      client.emit('page-audio-response', {
+        audio: Array.from(audioResponse),
+        mimeType: audioMimeType,
+        pageNumber
+      });
+      this.emitPageProgress(client, pageNumber, 'ready');
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Error summarizing page ${pageNumber}:`, error);
+
+      const event: PageNarrationErrorEvent = {
+        pageNumber,
+        error: error.message || 'Failed to summarize page',
+      };
+      client.emit('page-narration-error', event);
+
+      return {
+        error: event.error,
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      };
+    }
+  }
+
+  /**
+   * The client finished playing a page summary
+   */
+  @SubscribeMessage('page-audio-completed')
+  handlePageAudioCompleted(
+    @MessageBody() data: { pageNumber: number },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const pageNumber = Number(data?.pageNumber);
+    this.logger.log(`Client ${client.id} finished playing page ${pageNumber}`);
+    this.emitPageProgress(client, pageNumber, 'completed');
+    return { success: true };
+  }
+
+  /**
+   * Collect recorded audio chunks; the final chunk triggers transcription and an answer
+   */
+  @SubscribeMessage('streaming-audio')
+  async handleStreamingAudio(
+    @MessageBody() data: { audio: number[], isFinal?: boolean, mimeType?: string, reportKey?: string, personaId?: string, language?: string, pageNumber?: number, stepKey?: string, speed?: number },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const stream = this.audioStreams.get(client.id) || { chunks: [], size: 0, mimeType: 'audio/webm' };
+      this.audioStreams.set(client.id, stream);
+
+      if (data?.audio?.length) {
+        const chunk = Buffer.from(data.audio);
+        stream.chunks.push(chunk);
+        stream.size += chunk.length;
+      }
+      if (data?.mimeType) {
+        stream.mimeType = data.mimeType;
+      }
+
+      if (stream.size > MAX_STREAMED_AUDIO_BYTES) {
+        this.audioStreams.delete(client.id);
+        throw new Error('Recording is too long, please ask a shorter question');
+      }
+
+      if (!data?.isFinal) {
+        return { success: true, received: stream.size };
+      }
+
+      this.audioStreams.delete(client.id);
+      if (!stream.size) {
+        throw new Error('Audio data is required');
+      }
+
+      const transcription = await this.voiceChatService.transcribeAudio(Buffer.concat(stream.chunks), stream.mimeType, data.language);
+      client.emit('transcription-result', { text: transcription });
+
+      if (!transcription.trim()) {
+        // Nothing to answer; an empty answer ends the client's processing state
+        client.emit('ai-response-end', { text: '', chunkCount: 0 });
+        return { success: true };
+      }
+
+      await this.answer(client, transcription, data.reportKey, data.personaId, data.language, this.pageReference(client, data), toSpeechSpeed(data.speed));
+      return { success: true };
+    } catch (error) {
+      this.logger.error('Error processing streamed audio:', error);
+      client.emit('error', { message: error.message || 'Failed to process audio' });
+      return {
+        error: error.message || 'Failed to process audio',
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      };
+    }
+  }
+
+  /**
+   * Answer a typed question
+   */
+  @SubscribeMessage('text-input')
+  async handleTextInput(
+    @MessageBody() data: { text: string, reportKey?: string, personaId?: string, language?: string, pageNumber?: number, stepKey?: string, speed?: number },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const text = data?.text?.trim();
+      if (!text) {
+        throw new Error('Text is required');
+      }
+
+      await this.answer(client, text, data.reportKey, data.personaId, data.language, this.pageReference(client, data), toSpeechSpeed(data.speed));
+      return { success: true };
+    } catch (error) {
+      this.logger.error('Error processing text input:', error);
+      client.emit('error', { message: error.message || 'Failed to process text' });
+      return {
+        error: error.message || 'Failed to process text',
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      };
+    }
+  }
+
+  /**
+   * Start narrating a page step by step, optionally from a given step
+   */
+  @SubscribeMessage('start-step-narration')
+  async handleStartStepNarration(
+    @MessageBody() data: { pageNumber: number, reportKey?: string, stepKey?: string, personaId?: string, language?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const pageNumber = Number(data?.pageNumber);
+      if (!Number.isInteger(pageNumber)) {
+        throw new Error('Page number is required');
+      }
+
+      // Only one narration per client; starting a new one stops the previous one
+      const previous = this.stepSessions.get(client.id);
+      if (previous) {
+        this.endStep(client, previous, 'stopped');
+        this.stepSessions.delete(client.id);
+      }
+
+      const reportKey = this.reportsService.resolveReportKey({ documentKey: data.reportKey });
+      const steps = this.narrationService.getNarrationSteps(reportKey, pageNumber);
+
+      this.logger.log(`Starting step narration of page ${pageNumber} (${steps.length} steps) for client ${client.id}`);
+
+      if (!steps.length) {
+        this.emitPageCompleted(client, { reportKey, pageNumber, stepCount: 0 });
+        return { success: true, pageNumber, stepCount: 0 };
+      }
+
+      const startIndex = data.stepKey ? steps.findIndex(step => step.stepKey === data.stepKey) : 0;
+      if (startIndex < 0) {
+        throw new Error(`Step ${data.stepKey} not found on page ${pageNumber}`);
+      }
+
+      const session: StepNarrationSession = {
+        reportKey,
+        personaId: data.personaId,
+        language: data.language,
+        pageNumber,
+        steps,
+        index: startIndex,
+        generation: 0,
+        rendered: new Map(),
+      };
+      this.stepSessions.set(client.id, session);
+
+      void this.playStep(client, session, startIndex);
+
+      return { success: true, pageNumber, stepCount: steps.length };
+    } catch (error) {
+      this.logger.error('Error starting step narration:', error);
+      return {
+        error: error.message || 'Failed to start step narration',
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      };
+    }
+  }
+
+  /**
+   * The client finished playing the current step
+   */
+  @SubscribeMessage('narration-step-completed')
+  handleStepCompleted(
+    @MessageBody() data: { stepKey: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const session = this.stepSessions.get(client.id);
+
+    // Ignore completions for a step that was already skipped or replaced
+    if (!session || session.steps[session.index]?.stepKey !== data?.stepKey) {
+      return { success: false, message: 'Step is not active' };
+    }
+
+    this.endStep(client, session, 'completed');
+    this.advance(client, session);
+    return { success: true };
+  }
+
+  /**
+   * Skip the current step and continue with the next one
+   */
+  @SubscribeMessage('skip-narration-step')
+  handleSkipStep(@ConnectedSocket() client: Socket) {
+    const session = this.stepSessions.get(client.id);
+    if (!session) {
+      return { success: false, message: 'No narration in progress' };
+    }
+
+    this.endStep(client, session, 'skipped');
+    this.advance(client, session);
+    return { success: true };
+  }
+
+  /**
+   * Replay the current step, or another step of the page being narrated
+   */
+  @SubscribeMessage('replay-narration-step')
+  handleReplayStep(
+    @MessageBody() data: { stepKey?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const session = this.stepSessions.get(client.id);
+      if (!session) {
+        throw new Error('No narration in progress');
+      }
+
+      const index = data?.stepKey
+        ? session.steps.findIndex(step => step.stepKey === data.stepKey)
+        : session.index;
+      if (index < 0) {
+        throw new Error(`Step ${data.stepKey} not found on page ${session.pageNumber}`);
+      }
+
+      this.endStep(client, session, 'replayed');
+      void this.playStep(client, session, index);
+      return { success: true };
+    } catch (error) {
+      this.logger.error('Error replaying narration step:', error);
+      return {
+        error: error.message || 'Failed to replay step',
+        details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      };
+    }
+  }
+
+  /**
+   * Stop the step narration
+   */
+  @SubscribeMessage('stop-step-narration')
+  handleStopStepNarration(@ConnectedSocket() client: Socket) {
+    const session = this.stepSessions.get(client.id);
+    if (session) {
+      this.endStep(client, session, 'stopped');
+      this.stepSessions.delete(client.id);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Render a step (or reuse its audio) and send it to the client
+   */
+  private async playStep(client: Socket, session: StepNarrationSession, index: number) {
+    const generation = ++session.generation;
+    session.index = index;
+    const step = session.steps[index];
+
+    try {
+      const rendered = await this.render(session, step);
+
+      // The client moved on (skip, replay, stop) while the audio was rendering
+      if (session.generation !== generation || this.stepSessions.get(client.id) !== session) {
+        return;
+      }
+
+      const event: NarrationStepStartEvent = {
+        ...this.stepInfo(session, index),
+        text: rendered.text,
+        audio: rendered.audio.toString('base64'),
+        mimeType: rendered.mimeType,
+        highlight: this.narrationService.getStepHighlight(step),
+      };
+      client.emit('narration-step-start', event);
+
+      // Render the next step while this one plays
+      const next = session.steps[index + 1];
+      if (next) {
+        this.render(session, next).catch(() => session.rendered.delete(next.stepKey));
+      }
+    } catch (error) {
+      session.rendered.delete(step.stepKey);
+      this.logger.error(`Error narrating step ${step.stepKey}:`, error);
+      client.emit('narration-error', {
+        ...this.stepInfo(session, index),
+        error: error.message || 'Failed to narrate step',
+      });
+    }
+  }
+
+  /**
+   * Generate an answer and speak it sentence by sentence: one `ai-response-chunk` per
+   * sentence in `index` order, with its text and audio, then `ai-response-end`
+   * @param page Page the user is looking at, see `pageReference`
+   * @param speed Speech rate from the client's speed control, normal speed when omitted
+   */
+  private async answer(client: Socket, question: string, reportKey?: string, personaId?: string, language?: string, page?: PageReference, speed?: number) {
+    const resolvedKey = this.reportsService.resolveReportKey({ documentKey: reportKey });
+    const { memory } = this.getConversation(client, resolvedKey, language);
+    let chunkCount = 0;
+
+    const aiResponse = await this.voiceChatService.streamAIResponse(question, resolvedKey, personaId, language, { history: memory.getMessages(), page },
+      ({ index, text, audio }) => {
+        chunkCount++;
+        client.emit('ai-response-chunk', { index, text, audio: audio.toString('base64'), mimeType: this.voiceChatService.speechMimeType });
+      }, speed);
+    client.emit('ai-response-end', { text: aiResponse, chunkCount });
+
+    memory.addTurn(question, aiResponse);
+    // Summarize older turns once the history is over budget, after the answer went out
+    void memory.compact();
+  }
+
+  // The client's conversation about a report; opening another report starts a new one
+  private getConversation(client: Socket, reportKey: string, language?: string): Conversation {
+    const conversation = this.conversations.get(client.id);
+    if (conversation?.reportKey === reportKey) {
+      return conversation;
+    }
+
+    const started: Conversation = { reportKey, memory: this.voiceChatService.createConversationMemory(language) };
+    this.conversations.set(client.id, started);
+    return started;
+  }
+
+  /**
+   * The page a question is about: the one the client says is visible, with the step
+   * this client's narration is on when the client didn't name one
+   */
+  private pageReference(client: Socket, data: { pageNumber?: number, stepKey?: string }): PageReference | undefined {
+    const page = toPageReference(data);
+    const session = this.stepSessions.get(client.id);
+    if (page && !page.stepKey && session?.pageNumber === page.pageNumber) {
+      page.stepKey = session.steps[session.index]?.stepKey;
+    }
+    return page;
+  }
+
+  private emitPageProgress(client: Socket, pageNumber: number, stage: PageNarrationStage) {
+    const event: PageNarrationProgressEvent = { pageNumber, stage };
+    client.emit('page-narration-progress', event);
+  }
+
+  private render(session: StepNarrationSession, step: ReportStep): Promise<RenderedStep> {
+    if (!session.rendered.has(step.stepKey)) {
+      session.rendered.set(step.stepKey, this.narrationService.renderStep(step, session.personaId, session.language, session.reportKey));
+    }
+    return session.rendered.get(step.stepKey);
+  }
+
+  private endStep(client: Socket, session: StepNarrationSession, reason: NarrationStepEndReason) {
+    const event: NarrationStepEndEvent = {
+      ...this.stepInfo(session, session.index),
+      reason,
+    };
+    client.emit('narration-step-end', event);
+  }
+
+  private advance(client: Socket, session: StepNarrationSession) {
+    const nextIndex = session.index + 1;
+
+    if (nextIndex < session.steps.length) {
+      void this.playStep(client, session, nextIndex);
+      return;
+    }
+
+    // Invalidate any step still rendering
+    session.generation++;
+    this.stepSessions.delete(client.id);
+    this.emitPageCompleted(client, {
+      reportKey: session.reportKey,
+      pageNumber: session.pageNumber,
+      stepCount: session.steps.length,
+    });
+  }
+
+  private emitPageCompleted(client: Socket, event: NarrationPageCompletedEvent) {
+    this.logger.log(`Step narration of page ${event.pageNumber} completed for client ${client.id}`);
+    client.emit('narration-page-completed', event);
+  }
+
+  private stepInfo(session: StepNarrationSession, index: number): NarrationStepInfo {
+    const step = session.steps[index];
+    return {
+      reportKey: session.reportKey,
+      pageNumber: session.pageNumber,
+      stepKey: step.stepKey,
+      title: step.title,
+      stepIndex: index,
+      stepCount: session.steps.length,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { NarrationService } from './narration.service';
+import { NarrationGateway } from './narration.gateway';
+import { NarrationScriptService } from './narration-script.service';
+import { NarrationScriptController } from './narration-script.controller';
+import { ReportsModule } from '../reports/reports.module';
+import { VoiceChatModule } from '../voice-chat/voice-chat.module';
+import { ContentModule } from '../content/content.module';
+import { PersonasModule } from '../personas/personas.module';
+import { NarrationCacheModule } from '../narration-cache/narration-cache.module';
+
+@Module({
+  imports: [ReportsModule, VoiceChatModule, ContentModule, PersonasModule, NarrationCacheModule],
+  controllers: [NarrationScriptController],
+  providers: [NarrationGateway, NarrationService, NarrationScriptService],
+  exports: [NarrationService, NarrationScriptService]
+})
+export class NarrationModule {}
@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentLibraryService } from '../content/content-library.service';
+import { NarrationCacheService } from '../narration-cache/narration-cache.service';
+import { Persona, PersonasService } from '../personas/personas.service';
+import { ReportDocument, ReportStep } from '../reports/report.types';
+import { ReportsService } from '../reports/reports.service';
+import { VoiceChatService } from '../voice-chat/voice-chat.service';
+import { NarrationService } from './narration.service';
+
+const paloma: Persona = {
+  personaId: 'pt-BR:paloma',
+  name: 'Paloma',
+  language: 'pt-BR',
+  displayLanguage: 'Português',
+  tone: 'warm',
+  voice: 'sage',
+  avatar: null,
+};
+
+const step: ReportStep = {
+  stepKey: 'step-1',
+  page: 1,
+  sortOrder: 1,
+  title: 'Drivers',
+  content: 'Your drivers show what motivates you.',
+};
+
+describe('NarrationService.renderStep', () => {
+  let cacheDir: string;
+  let translateText: jest.Mock<Promise<string>, [string, string | undefined, string?]>;
+  let service: NarrationService;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'narration-service-'));
+    translateText = jest.fn(async (text: string, language: string | undefined) => `[${language}] ${text}`);
+
+    const reportsService: jest.Mocked<Pick<ReportsService, 'getReport' | 'resolveReportKey'>> = {
+      getReport: jest.fn(() => ({ language: 'en', header: {} }) as ReportDocument),
+      resolveReportKey: jest.fn(() => 'report-1'),
+    };
+    const voiceChatService: Pick<VoiceChatService, 'translateText' | 'generateSpeechAudio' | 'speechMimeType'> = {
+      translateText,
+      generateSpeechAudio: jest.fn(async (text: string) => Buffer.from(text)),
+      speechMimeType: 'audio/wav',
+    };
+    // The persona's language is the session language unless one is given
+    const personasService: jest.Mocked<Pick<PersonasService, 'resolveLanguage' | 'getPersona'>> = {
+      resolveLanguage: jest.fn((_reportKey?: string, language?: string) => language || paloma.language),
+      getPersona: jest.fn(() => paloma),
+    };
+    // The step has no content key, so the library is never asked
+    const contentLibrary: jest.Mocked<Pick<ContentLibraryService, 'resolve' | 'render'>> = {
+      resolve: jest.fn(),
+      render: jest.fn(),
+    };
+
+    service = new NarrationService(
+      reportsService as unknown as ReportsService,
+      voiceChatService as VoiceChatService,
+      contentLibrary as unknown as ContentLibraryService,
+      personasService as unknown as PersonasService,
+      new NarrationCacheService(new ConfigService({ NARRATION_CACHE_DIR: cacheDir })),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it("speaks the persona's language when no language is given", async () => {
+    const rendered = await service.renderStep(step, paloma.personaId);
+
+    expect(translateText).toHaveBeenCalledWith(step.content, 'pt-BR', undefined);
+    expect(rendered.text).toBe(`[pt-BR] ${step.content}`);
+  });
+
+  it('caches the same translation whether the language is given or comes from the persona', async () => {
+    const fromPersona = await service.renderStep(step, paloma.personaId);
+    const prerendered = await service.renderStep(step, paloma.personaId, 'pt-BR');
+
+    expect(translateText).toHaveBeenCalledTimes(1);
+    expect(prerendered.text).toBe(fromPersona.text);
+  });
+
+  it('does not reuse a persona-language rendering for another language', async () => {
+    await service.renderStep(step, paloma.personaId);
+    const english = await service.renderStep(step, paloma.personaId, 'en');
+
+    expect(translateText).toHaveBeenLastCalledWith(step.content, 'en', undefined);
+    expect(english.text).toBe(`[en] ${step.content}`);
+  });
+});
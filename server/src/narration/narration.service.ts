@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from '../reports/reports.service';
+import { ReportDocument, ReportStep } from '../reports/report.types';
+import { VoiceChatService } from '../voice-chat/voice-chat.service';
+import { ContentLibraryService, ContentLookup } from '../content/content-library.service';
+import { sameLanguage } from '../personas/language-library';
+import { DEFAULT_PERSONA_VOICE } from '../personas/persona-library';
+import { PersonasService } from '../personas/personas.service';
+import { contentHash, NarrationCacheService } from '../narration-cache/narration-cache.service';
+import { NarrationHighlight, RenderedStep } from './narration.types';
+
+@Injectable()
+export class NarrationService {
+  private readonly logger = new Logger(NarrationService.name);
+
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly voiceChatService: VoiceChatService,
+    private readonly contentLibrary: ContentLibraryService,
+    private readonly personasService: PersonasService,
+    private readonly narrationCache: NarrationCacheService,
+  ) {}
+
+  /**
+   * Get the steps to narrate for a page, in `sortOrder`.
+   * Pages the report has no content for (e.g. pages missing from prompt-data) have no steps.
+   * @param reportKey Report key, the default report when omitted
+   * @param pageNumber Page number as shown in the PDF viewer
+   */
+  getNarrationSteps(reportKey: string | undefined, pageNumber: number): ReportStep[] {
+    const hasPage = this.reportsService.getReport(reportKey).pages
+      .some(page => page.page === pageNumber.toString());
+
+    if (!hasPage) {
+      return [];
+    }
+
+    return this.reportsService.getPageSteps(reportKey, pageNumber)
+      .filter(step => step.content && step.content.trim());
+  }
+
+  /**
+   * Turn a step's authored content into speech in the session language: the content library's
+   * localization of the step when it has one, otherwise a translation of the authored content.
+   * Renderings are cached per report, step, persona and language until the step's text changes.
+   * @param step The step to narrate
+   * @param personaId Persona narrating, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   * @param reportKey Report the step belongs to, the default report when omitted
+   */
+  async renderStep(step: ReportStep, personaId?: string, language?: string, reportKey?: string): Promise<RenderedStep> {
+    try {
+      const sessionLanguage = this.personasService.resolveLanguage(reportKey, language, personaId);
+      const localized = this.localizeStep(step, sessionLanguage, reportKey);
+      const source = localized ?? step.content.trim();
+      const persona = this.personasService.getPersona(reportKey, personaId, sessionLanguage);
+      const voice = persona?.voice || DEFAULT_PERSONA_VOICE;
+
+      return await this.narrationCache.getOrCreate({
+        reportKey: this.reportsService.resolveReportKey({ documentKey: reportKey }),
+        entry: step.stepKey,
+        personaId: persona?.personaId || '',
+        voice,
+        language: sessionLanguage,
+        contentHash: contentHash(source),
+      }, async () => {
+        const text = localized ?? await this.voiceChatService.translateText(source, sessionLanguage, reportKey);
+        this.logger.log(`Rendering step ${step.stepKey} "${step.title}" (${text.length} chars, ${sessionLanguage})`);
+
+        const audio = await this.voiceChatService.generateSpeechAudio(text, voice);
+
+        return { text, audio, mimeType: this.voiceChatService.speechMimeType };
+      });
+    } catch (error) {
+      this.logger.error(`Error rendering step ${step.stepKey}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render and cache the narration of every page of a report ahead of time: each step,
+   * and the page summary for pages that have content, so narration starts without waiting
+   * @param reportKey Report to render, the default report when omitted
+   * @param personaId Persona narrating, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   * @param onPage Called after each page with the number of steps rendered
+   */
+  async prerenderReport(
+    reportKey?: string,
+    personaId?: string,
+    language?: string,
+    onPage?: (pageNumber: number, steps: number) => void,
+  ): Promise<{ pages: number; steps: number }> {
+    const sessionLanguage = this.personasService.resolveLanguage(reportKey, language, personaId);
+    const pageNumbers = this.reportsService.getReport(reportKey).pages
+      .map(page => Number(page.page))
+      .sort((a, b) => a - b);
+    let steps = 0;
+
+    for (const pageNumber of pageNumbers) {
+      const pageSteps = this.getNarrationSteps(reportKey, pageNumber);
+      for (const step of pageSteps) {
+        await this.renderStep(step, personaId, sessionLanguage, reportKey);
+      }
+      if (pageSteps.length) {
+        await this.voiceChatService.summarizePageContent(pageNumber, reportKey, undefined, personaId, sessionLanguage);
+      }
+
+      steps += pageSteps.length;
+      onPage?.(pageNumber, pageSteps.length);
+    }
+
+    return { pages: pageNumbers.length, steps };
+  }
+
+  /**
+   * Text of a step from the content library: the localized template of its `contentKey`,
+   * filled with the localized name and interpretation sentences of the trait it is about
+   * @param step The step to narrate
+   * @param language Session language
+   * @param reportKey Report the step belongs to, the default report when omitted
+   * @returns null when the session speaks the report's language or the library has no complete localization
+   */
+  localizeStep(step: ReportStep, language: string | undefined, reportKey?: string): string | null {
+    const report = this.reportsService.getReport(reportKey);
+    const contentKey = step.template?.contentKey;
+    if (!language || !contentKey || sameLanguage(language, report.language)) {
+      return null;
+    }
+
+    const lookup: ContentLookup = {
+      namespace: step.template.namespace || report.header.defaultNamespace,
+      language,
+      fallback: false,
+    };
+    const template = this.contentLibrary.resolve(contentKey, lookup);
+    if (!template) {
+      return null;
+    }
+
+    const text = this.contentLibrary.render(template, this.stepValues(report, contentKey, lookup));
+    if (text) {
+      this.logger.log(`Localized step ${step.stepKey} from content key ${contentKey} (${language})`);
+    }
+    return text;
+  }
+
+  /**
+   * Get the page region a step refers to
+   * @param step The step being narrated
+   * @returns null when the step has no highlight
+   */
+  getStepHighlight(step: ReportStep): NarrationHighlight | null {
+    const template = step.template;
+    if (!template?.highlight) {
+      return null;
+    }
+
+    const { top, left, width, height } = template.highlight;
+    return {
+      top,
+      left,
+      width,
+      height,
+      showHighlight: template.showHighlight !== false,
+      printHighlight: template.printHighlight !== false,
+    };
+  }
+
+  // Placeholder values of a step about a trait; such steps' contentKeys end with the trait's fanContentKey
+  private stepValues(report: ReportDocument, contentKey: string, lookup: ContentLookup): Record<string, string> {
+    const item = (report.scores?.traits || [])
+      .find(score => score.fanContentKey && contentKey.endsWith(`.${score.fanContentKey}`));
+    if (!item) {
+      return {};
+    }
+
+    const name = this.contentLibrary.getScoreName('traits', item, lookup);
+    const values: Record<string, string> = { name, title: name };
+    for (const [slot, key] of Object.entries(item.fanContent || {})) {
+      const sentence = typeof key === 'string' ? this.contentLibrary.resolve(`${key}.${slot}`, lookup) : undefined;
+      if (sentence) {
+        values[slot] = sentence;
+      }
+    }
+    return values;
+  }
+}
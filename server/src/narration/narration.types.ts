@@ -0,0 +1,62 @@
+import { HighlightRect } from '../reports/report.types';
+import { PageSummaryStage } from '../voice-chat/voice-chat.service';
+
+/** Identifies a step within a step-by-step page narration */
+export interface NarrationStepInfo {
+  reportKey: string;
+  pageNumber: number;
+  stepKey: string;
+  title: string;
+  stepIndex: number;
+  stepCount: number;
+}
+
+/** Region of the page a step talks about, as fractions of the page size */
+export interface NarrationHighlight extends HighlightRect {
+  showHighlight: boolean;
+  printHighlight: boolean;
+}
+
+/** Emitted as `narration-step-start`; audio is base64 encoded */
+export interface NarrationStepStartEvent extends NarrationStepInfo {
+  text: string;
+  audio: string;
+  /** MIME type of the audio, e.g. `audio/mpeg` */
+  mimeType: string;
+  highlight: NarrationHighlight | null;
+}
+
+export type NarrationStepEndReason = 'completed' | 'skipped' | 'replayed' | 'stopped';
+
+/** Emitted as `narration-step-end` */
+export interface NarrationStepEndEvent extends NarrationStepInfo {
+  reason: NarrationStepEndReason;
+}
+
+/** Emitted as `narration-page-completed` once every step has ended */
+export interface NarrationPageCompletedEvent {
+  reportKey: string;
+  pageNumber: number;
+  stepCount: number;
+}
+
+/** Spoken form of a step, ready to send to the client */
+export interface RenderedStep {
+  text: string;
+  audio: Buffer;
+  mimeType: string;
+}
+
+/** Stages of a page summary narration, emitted as `page-narration-progress` */
+export type PageNarrationStage = PageSummaryStage | 'ready' | 'completed';
+
+export interface PageNarrationProgressEvent {
+  pageNumber: number;
+  stage: PageNarrationStage;
+}
+
+/** Emitted as `page-narration-error` when a page could not be summarized */
+export interface PageNarrationErrorEvent {
+  pageNumber: number;
+  error: string;
+}
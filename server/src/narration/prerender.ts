@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { NarrationService } from './narration.service';
+
+/**
+ * Warm the narration cache for a whole report, so narration starts without waiting
+ * for the LLM and TTS:
+ *
+ *   npm run narration:prerender -- [reportKey] [--persona <personaId>] [--language <code>]
+ *
+ * Without a report key the default report is rendered.
+ */
+async function bootstrap() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args.splice(index, 2)[1] : undefined;
+  };
+  const personaId = option('persona');
+  const language = option('language');
+  const reportKey = args[0];
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn', 'log'] });
+  const logger = new Logger('Prerender');
+
+  try {
+    const started = Date.now();
+    const { pages, steps } = await app.get(NarrationService).prerenderReport(reportKey, personaId, language,
+      (pageNumber, pageSteps) => logger.log(`Page ${pageNumber}: ${pageSteps} steps`));
+
+    logger.log(`Rendered ${steps} steps on ${pages} pages of ${reportKey || 'the default report'} in ${Math.round((Date.now() - started) / 1000)}s`);
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    logger.error(`Prerendering failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+bootstrap();
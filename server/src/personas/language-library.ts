@@ -0,0 +1,31 @@
+/**
+ * Session languages. Codes follow the report's `languages[].language` (BCP 47, e.g. `pt-BR`).
+ * Languages without an entry here still work: prompts use the code itself and
+ * transcription uses its primary subtag.
+ */
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export interface SessionLanguage {
+  /** Name used in prompts, e.g. "Brazilian Portuguese" */
+  name: string;
+  /** ISO-639-1 hint for speech-to-text */
+  transcriptionCode: string;
+}
+
+export const SESSION_LANGUAGES: Record<string, SessionLanguage> = {
+  'en': { name: 'English', transcriptionCode: 'en' },
+  'pt-BR': { name: 'Brazilian Portuguese', transcriptionCode: 'pt' },
+};
+
+/** Name of a language for prompts */
+export const languageName = (language: string): string =>
+  SESSION_LANGUAGES[language]?.name || language;
+
+/** ISO-639-1 transcription hint for a language, e.g. `pt` for `pt-BR` */
+export const transcriptionLanguage = (language: string): string =>
+  SESSION_LANGUAGES[language]?.transcriptionCode || language.split('-')[0].toLowerCase();
+
+/** Whether two language codes name the same language, ignoring case */
+export const sameLanguage = (a: string, b: string): boolean =>
+  (a || '').toLowerCase() === (b || '').toLowerCase();
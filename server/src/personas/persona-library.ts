@@ -0,0 +1,43 @@
+/**
+ * Voices and speaking styles for the narrator personas listed in a report's `languages[]`.
+ * Voices are limited to those both the TTS and the realtime API offer, so a persona
+ * sounds the same in narration and in live Q&A.
+ */
+
+export const PERSONA_VOICES = ['alloy', 'ash', 'coral', 'echo', 'sage', 'shimmer'] as const;
+
+export type PersonaVoice = typeof PERSONA_VOICES[number];
+
+export const DEFAULT_PERSONA_VOICE: PersonaVoice = 'alloy';
+
+/** Voice per persona name */
+export const VOICES_BY_PERSONA: Record<string, PersonaVoice> = {
+  'liv': 'shimmer',
+  'brazillian liv': 'shimmer',
+  'lin': 'coral',
+  'cole': 'ash',
+  'sang': 'sage',
+  'matt': 'echo',
+  'paloma': 'sage',
+  'paige': 'echo',
+  'aisha': 'coral',
+};
+
+/** Voice for personas without an entry above, by `gender` */
+export const VOICES_BY_GENDER: Record<string, PersonaVoice> = {
+  F: 'shimmer',
+  M: 'ash',
+};
+
+export const DEFAULT_PERSONA_TONE = 'natural';
+
+/** Speaking style per `tone`, e.g. "Engaging" or "Paloma - Serene" */
+export const TONE_INSTRUCTIONS: Record<string, string> = {
+  original: 'Speak in a clear, friendly and professional way, like an experienced coach.',
+  natural: 'Speak naturally and conversationally, as if talking to a colleague.',
+  engaging: 'Be engaging and upbeat. Use vivid, encouraging language and invite the participant to reflect.',
+  smart: 'Be precise and insightful. Explain the reasoning behind results without jargon.',
+  young: 'Be relaxed and informal, with short sentences and a light touch.',
+  serene: 'Be calm and reassuring, with an unhurried pace and gentle wording.',
+  energetic: 'Be lively and motivating, with short punchy sentences.',
+};
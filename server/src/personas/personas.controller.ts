@@ -0,0 +1,21 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { Persona, PersonasService } from './personas.service';
+
+@Controller('reports')
+export class PersonasController {
+  constructor(private readonly personasService: PersonasService) {}
+
+  /**
+   * Narrator personas of a report; the first entry is the report's default persona
+   */
+  @Get(':key/personas')
+  getPersonas(@Param('key') key: string): Persona[] {
+    const personas = this.personasService.listPersonas(key);
+    const defaultPersona = this.personasService.getPersona(key);
+    if (!defaultPersona) {
+      return personas;
+    }
+
+    return [defaultPersona, ...personas.filter(persona => persona.personaId !== defaultPersona.personaId)];
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PersonasService } from './personas.service';
+import { PersonasController } from './personas.controller';
+import { ReportsModule } from '../reports/reports.module';
+
+@Module({
+  imports: [ReportsModule],
+  controllers: [PersonasController],
+  providers: [PersonasService],
+  exports: [PersonasService]
+})
+export class PersonasModule {}
@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from '../reports/reports.service';
+import { ReportLanguage } from '../reports/report.types';
+import {
+  DEFAULT_PERSONA_TONE,
+  DEFAULT_PERSONA_VOICE,
+  PersonaVoice,
+  TONE_INSTRUCTIONS,
+  VOICES_BY_GENDER,
+  VOICES_BY_PERSONA,
+} from './persona-library';
+import { DEFAULT_LANGUAGE, sameLanguage } from './language-library';
+
+/** A narrator persona of a report with the voice it speaks with */
+export interface Persona {
+  /** `<language>:<persona name>`, e.g. `en:liv` */
+  personaId: string;
+  name: string;
+  language: string;
+  displayLanguage: string;
+  dialectName?: string;
+  gender?: string;
+  tone: string;
+  voice: PersonaVoice;
+  avatar: string | null;
+}
+
+const personaId = (entry: ReportLanguage): string =>
+  `${entry.language}:${entry.persona.trim().toLowerCase().replace(/\s+/g, '-')}`;
+
+@Injectable()
+export class PersonasService {
+  private readonly logger = new Logger(PersonasService.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * List the personas of a report in `languages[]` order
+   * @param reportKey Report key, the default report when omitted
+   */
+  listPersonas(reportKey?: string): Persona[] {
+    return (this.reportsService.getReport(reportKey).languages || [])
+      .filter(entry => entry.persona)
+      .map(entry => this.toPersona(entry));
+  }
+
+  /**
+   * Get a persona, falling back to the report's default persona for the session language
+   * @param reportKey Report key, the default report when omitted
+   * @param id Persona ID from `listPersonas`
+   * @param language Session language; a persona speaking another language is replaced by a default one
+   * @returns null when the report lists no personas
+   */
+  getPersona(reportKey?: string, id?: string, language?: string): Persona | null {
+    const personas = this.listPersonas(reportKey);
+
+    if (id) {
+      const persona = personas.find(entry => entry.personaId === id);
+      if (persona && (!language || sameLanguage(persona.language, language))) {
+        return persona;
+      }
+      this.logger.warn(persona
+        ? `Persona ${id} does not speak ${language}, using the default persona`
+        : `Unknown persona ${id}, using the default persona`);
+    }
+
+    return this.getDefaultPersona(reportKey, personas, language) || null;
+  }
+
+  /**
+   * Resolve the language of a session: the requested language, else the persona's, else the report's
+   * @param reportKey Report key, the default report when omitted
+   * @param language Requested session language
+   * @param personaId Persona ID from `listPersonas`
+   */
+  resolveLanguage(reportKey?: string, language?: string, personaId?: string): string {
+    if (language) {
+      return language;
+    }
+
+    const persona = personaId ? this.listPersonas(reportKey).find(entry => entry.personaId === personaId) : undefined;
+    return persona?.language || this.reportsService.getReport(reportKey).language || DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Speaking style instructions for a persona
+   * @param persona The persona speaking
+   */
+  getStyleInstructions(persona: Persona | null): string {
+    if (!persona) {
+      return '';
+    }
+    const tone = this.toneKey(persona.tone);
+    return `Your name is ${persona.name}. ${TONE_INSTRUCTIONS[tone] || TONE_INSTRUCTIONS[DEFAULT_PERSONA_TONE]}`;
+  }
+
+  // The first persona in the language, otherwise the report's first persona
+  private getDefaultPersona(reportKey: string | undefined, personas: Persona[], language?: string): Persona | undefined {
+    const target = language || this.reportsService.getReport(reportKey).language;
+
+    return personas.find(entry => sameLanguage(entry.language, target))
+      || personas[0];
+  }
+
+  private toPersona(entry: ReportLanguage): Persona {
+    const name = entry.persona.trim();
+    return {
+      personaId: personaId(entry),
+      name,
+      language: entry.language,
+      displayLanguage: entry.displayLanguage?.trim(),
+      dialectName: entry.dialectName,
+      gender: entry.gender,
+      tone: entry.tone || DEFAULT_PERSONA_TONE,
+      voice: VOICES_BY_PERSONA[name.toLowerCase()] || VOICES_BY_GENDER[entry.gender] || DEFAULT_PERSONA_VOICE,
+      avatar: entry.squarePlaceholder || null,
+    };
+  }
+
+  // Tones like "Paloma - Serene" carry the persona name first
+  private toneKey(tone: string): string {
+    return tone.split('-').pop().trim().toLowerCase();
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PromptsService } from './prompts.service';
+import { ReportsModule } from '../reports/reports.module';
+
+@Module({
+  imports: [ReportsModule],
+  providers: [PromptsService],
+  exports: [PromptsService]
+})
+export class PromptsModule {}
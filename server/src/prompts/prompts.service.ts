@@ -0,0 +1,113 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from '../reports/reports.service';
+import {
+  DEFAULT_DESIGN_PROMPT_KEY,
+  DEFAULT_GUARDRAIL_PROMPT_KEY,
+  DESIGN_PROMPTS,
+  DesignPrompt,
+  GUARDRAIL_PROMPTS,
+  GuardrailPrompt,
+} from './prompt-library';
+import { languageName } from '../personas/language-library';
+
+// Lowercase with plain apostrophes and single spaces, so refusals match however they are punctuated
+const normalizeText = (text: string): string => text
+  .toLowerCase()
+  .replace(/[‘’]/g, '\'')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+@Injectable()
+export class PromptsService {
+  private readonly logger = new Logger(PromptsService.name);
+  private readonly reportedMissingKeys = new Set<string>();
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * Get the guardrail prompt named by a report's `header.gaurdrailPromptKey`
+   * @param reportKey Report key, the default report when omitted
+   */
+  getGuardrailPrompt(reportKey?: string): GuardrailPrompt {
+    const key = this.reportsService.getReport(reportKey).header.gaurdrailPromptKey;
+    return this.lookup(GUARDRAIL_PROMPTS, key, DEFAULT_GUARDRAIL_PROMPT_KEY, 'guardrail');
+  }
+
+  /**
+   * Get the design prompt named by a report's `header.design.prompt`
+   * @param reportKey Report key, the default report when omitted
+   */
+  getDesignPrompt(reportKey?: string): DesignPrompt {
+    const key = this.reportsService.getReport(reportKey).header.design?.prompt;
+    return this.lookup(DESIGN_PROMPTS, key, DEFAULT_DESIGN_PROMPT_KEY, 'design');
+  }
+
+  /**
+   * Instructions to speak the session language, whatever language the report is written in
+   * @param language Session language code, e.g. `pt-BR`
+   */
+  getLanguageInstructions(language?: string): string {
+    if (!language) {
+      return '';
+    }
+    const name = languageName(language);
+    return `Always speak and respond in ${name}. When you refer to report content written in another language, translate it into ${name}.`;
+  }
+
+  /**
+   * Compose system instructions: the base prompt, the report's design prompt, the
+   * speaking style and language, any context about the participant and finally the report's guardrails
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param basePrompt Caller specific instructions
+   * @param parts.style Speaking style of the narrator persona
+   * @param parts.language Session language code
+   * @param parts.context Additional context such as the participant's scores
+   */
+  composeInstructions(
+    reportKey: string | undefined,
+    basePrompt: string,
+    { style, language, context }: { style?: string, language?: string, context?: string } = {},
+  ): string {
+    const design = this.getDesignPrompt(reportKey);
+    const guardrail = this.getGuardrailPrompt(reportKey);
+    this.logger.debug(`Composing instructions with design prompt ${design.key} and guardrail ${guardrail.key}`);
+
+    return [basePrompt, design.instructions, style, this.getLanguageInstructions(language), context, guardrail.instructions]
+      .filter(part => part && part.trim())
+      .join('\n\n');
+  }
+
+  /**
+   * Check whether a model answer is a guardrail refusal, and log it if so
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param answer The model's answer
+   * @param source Where the answer came from, for the log
+   */
+  detectRefusal(reportKey: string | undefined, answer: string, source: string): boolean {
+    if (!answer) {
+      return false;
+    }
+
+    const guardrail = this.getGuardrailPrompt(reportKey);
+    const refused = normalizeText(answer).includes(normalizeText(guardrail.refusal).replace(/\.$/, ''));
+
+    if (refused) {
+      this.logger.warn(`Guardrail refusal triggered (${source}, guardrail ${guardrail.key}): "${answer.substring(0, 100)}"`);
+    }
+
+    return refused;
+  }
+
+  private lookup<T>(library: Record<string, T>, key: string | undefined, fallbackKey: string, kind: string): T {
+    if (key && library[key]) {
+      return library[key];
+    }
+
+    if (key && !this.reportedMissingKeys.has(`${kind}:${key}`)) {
+      this.reportedMissingKeys.add(`${kind}:${key}`);
+      this.logger.warn(`Unknown ${kind} prompt ${key}, using ${fallbackKey}`);
+    }
+
+    return library[fallbackKey];
+  }
+}
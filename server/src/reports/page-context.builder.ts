@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { HighlightRect, ReportStep } from './report.types';
+
+/** The page a participant is looking at, and the step being narrated on it if any */
+export interface PageReference {
+  pageNumber: number;
+  stepKey?: string;
+}
+
+/**
+ * Read the page reference a client sent with an event
+ * @param data Event payload with the visible page and, optionally, the narrated step
+ * @returns undefined when the payload has no whole page number
+ */
+export const toPageReference = (data: { pageNumber?: number, stepKey?: string }): PageReference | undefined => {
+  const pageNumber = Number(data?.pageNumber);
+  if (data?.pageNumber === undefined || data?.pageNumber === null || !Number.isInteger(pageNumber)) {
+    return undefined;
+  }
+  return { pageNumber, stepKey: data.stepKey || undefined };
+};
+
+// Longest step text given to the model; a page like "Traits" has close to 20 steps
+const MAX_STEP_CONTEXT_CHARS = 400;
+
+/**
+ * Turns the page a participant is looking at into model context, so questions like
+ * "what does this chart mean?" are answered about that page: its steps in narration
+ * order, where each one sits on the page and which step is being narrated.
+ */
+@Injectable()
+export class PageContextBuilder {
+  private readonly logger = new Logger(PageContextBuilder.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * Build the context of the visible page
+   * @param reportKey Report key, the default report when omitted
+   * @param page Visible page and narrated step
+   * @returns An empty string when no page is given or the report has no such page
+   */
+  build(reportKey: string | undefined, page?: PageReference): string {
+    if (!page || !Number.isInteger(page.pageNumber)) {
+      return '';
+    }
+
+    const reportPage = this.reportsService.getReport(reportKey).pages
+      .find(entry => entry.page === page.pageNumber.toString());
+    if (!reportPage) {
+      this.logger.debug(`No prompt data for page ${page.pageNumber}, skipping page context`);
+      return '';
+    }
+
+    const steps = this.reportsService.getPageSteps(reportKey, page.pageNumber)
+      .filter(step => step.content && step.content.trim());
+    const current = steps.find(step => step.stepKey === page.stepKey);
+
+    return [
+      `The participant is looking at page ${page.pageNumber}, "${reportPage.pageTitle}". When they say "this page", "this chart" or "here", they mean this page. It covers, in order:`,
+      ...steps.map(step => `- ${this.formatStep(step)}`),
+      ...(current ? [`They are listening to the narration of "${this.formatTitle(current)}".`] : []),
+    ].join('\n');
+  }
+
+  /**
+   * Describe a step as one line: title, position on the page and its text
+   * @param step A step of the page
+   */
+  formatStep(step: ReportStep): string {
+    const highlight = step.template?.highlight;
+    const position = highlight ? ` (${this.describeRegion(highlight)} of the page)` : '';
+    let text = step.content.trim().replace(/\s+/g, ' ');
+    if (text.length > MAX_STEP_CONTEXT_CHARS) {
+      text = `${text.slice(0, MAX_STEP_CONTEXT_CHARS).replace(/\s+\S*$/, '')}...`;
+    }
+
+    return `${this.formatTitle(step)}${position}: ${text}`;
+  }
+
+  // Titles like "Strengths>empathy" or ">optimism"
+  private formatTitle(step: ReportStep): string {
+    return (step.title || '').replace(/^>/, '').replace('>', ' > ').trim();
+  }
+
+  // Where the center of a highlight falls, e.g. "upper left" or "middle"
+  private describeRegion({ top, left, width, height }: HighlightRect): string {
+    const third = (value: number) => Math.max(0, Math.min(2, Math.floor(value * 3)));
+    const vertical = ['upper', 'middle', 'lower'][third(top + height / 2)];
+    const horizontal = ['left', 'center', 'right'][third(left + width / 2)];
+
+    if (vertical === 'middle' && horizontal === 'center') {
+      return 'middle';
+    }
+    return horizontal === 'center' ? `${vertical} part` : `${vertical} ${horizontal}`;
+  }
+}
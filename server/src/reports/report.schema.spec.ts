@@ -0,0 +1,187 @@
+import { findMissingPages, ReportValidationError, validateReportDocument } from './report.schema';
+
+const validReport = () => ({
+  liveReportKey: 'live-1',
+  participantId: 'participant-1',
+  documentKey: 'doc-1',
+  language: 'en',
+  languages: [{ language: 'en', displayLanguage: 'English', persona: 'Liv' }],
+  header: {
+    liveReportKey: 'live-1',
+    reportName: 'Report',
+    pages: 3,
+    language: 'en',
+  },
+  pages: [
+    {
+      page: '1',
+      pageCode: 'intro',
+      pageTitle: 'Introduction',
+      sectionKey: 'overview',
+      steps: [{ stepKey: 'step-1', page: 1, sortOrder: 1, title: 'Welcome', content: 'Hello' }],
+    },
+  ],
+  sections: [{ sectionKey: 'overview', sectionTitle: 'Overview', sectionSortOrder: 1 }],
+  scores: { traits: [], drivers: [], competencies: [] },
+});
+
+const issuesOf = (input: unknown) => {
+  try {
+    validateReportDocument(input);
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  return [];
+};
+
+describe('validateReportDocument', () => {
+  it('returns a valid document unchanged', () => {
+    const report = validReport();
+
+    expect(validateReportDocument(report)).toBe(report);
+  });
+
+  it('lists every issue with its path', () => {
+    const report: any = validReport();
+    delete report.participantId;
+    report.pages[0].steps[0].sortOrder = 'first';
+    report.header.pages = -1;
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'participantId', message: 'is required' },
+      { path: 'header.pages', message: 'expected a value >= 0, got -1' },
+      { path: 'pages[0].steps[0].sortOrder', message: 'expected number, got string' },
+    ]);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(issuesOf(null)).toEqual([{ path: '', message: 'expected object, got null' }]);
+    expect(issuesOf([])).toEqual([{ path: '', message: 'expected object, got array' }]);
+  });
+
+  it('accepts optional and nullable fields when they are left out or null', () => {
+    const report: any = validReport();
+    report.pages[0].steps[0].template = null;
+    report.sections[0].sectionSortOrder = '2';
+    report.header.design = null;
+
+    expect(issuesOf(report)).toEqual([]);
+  });
+
+  it('rejects empty keys and non-numeric page numbers', () => {
+    const report: any = validReport();
+    report.pages[0].page = 'one';
+    report.pages[0].steps[0].stepKey = ' ';
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'pages[0].page', message: 'expected numeric string, got "one"' },
+      { path: 'pages[0].steps[0].stepKey', message: 'expected non-empty string, got empty string' },
+    ]);
+  });
+
+  it('checks highlights are fractions of the page', () => {
+    const report: any = validReport();
+    report.pages[0].steps[0].template = { highlight: { top: 0.1, left: 0, width: 1.5, height: 0.2 } };
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'pages[0].steps[0].template.highlight.width', message: 'expected a value <= 1, got 1.5' },
+    ]);
+  });
+
+  it('checks the header and sections match the document', () => {
+    const report: any = validReport();
+    report.header.liveReportKey = 'live-2';
+    report.pages[0].sectionKey = 'missing';
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'header.liveReportKey', message: 'does not match liveReportKey "live-1"' },
+      { path: 'pages[0].sectionKey', message: 'unknown section "missing"' },
+    ]);
+  });
+
+  it('rejects duplicate pages and steps filed under another page', () => {
+    const report: any = validReport();
+    report.pages.push({ ...report.pages[0], steps: [{ ...report.pages[0].steps[0], page: 2 }] });
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'pages[1].page', message: 'duplicate page "1"' },
+      { path: 'pages[1].steps[0].page', message: 'expected 1 to match its page, got 2' },
+    ]);
+  });
+
+  it('names the source and the first issues in the error message', () => {
+    const report: any = validReport();
+    report.language = 1;
+
+    expect(() => validateReportDocument(report, 'report.json'))
+      .toThrow('Invalid report document (report.json): language: expected string, got number');
+  });
+
+  it('shortens the error message after five issues', () => {
+    const error = new ReportValidationError(
+      Array.from({ length: 7 }, (_, index) => ({ path: `field${index}`, message: 'is required' })),
+    );
+
+    expect(error.message).toMatch(/field4: is required \(and 2 more\)$/);
+    expect(error.issues).toHaveLength(7);
+  });
+});
+
+describe('validateReportDocument page count', () => {
+  it('accepts pages numbered from 0 below header.pages', () => {
+    const report: any = validReport();
+    report.pages[0].page = '0';
+    report.pages[0].steps[0].page = 0;
+
+    expect(issuesOf(report)).toEqual([]);
+  });
+
+  it('accepts pages numbered from 1 up to header.pages when there is no page 0', () => {
+    const report: any = validReport();
+    report.pages[0].page = '3';
+    report.pages[0].steps[0].page = 3;
+
+    expect(issuesOf(report)).toEqual([]);
+  });
+
+  it('rejects pages outside header.pages', () => {
+    const report: any = validReport();
+    report.pages[0].page = '4';
+    report.pages[0].steps[0].page = 4;
+    report.pages.push({ ...report.pages[0], page: '0', steps: [] });
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'pages[0].page', message: 'page 4 is outside header.pages (3 pages, numbered from 0)' },
+    ]);
+  });
+
+  it('rejects more page entries than header.pages', () => {
+    const report: any = validReport();
+    report.header.pages = 2;
+    report.pages = ['0', '1', '2'].map(page => ({ ...report.pages[0], page, steps: [] }));
+
+    expect(issuesOf(report)).toEqual([
+      { path: 'pages', message: 'has 3 entries but header.pages is 2' },
+      { path: 'pages[2].page', message: 'page 2 is outside header.pages (2 pages, numbered from 0)' },
+    ]);
+  });
+});
+
+describe('findMissingPages', () => {
+  const withPages = (pageCount: number, pages: string[]) => ({
+    header: { ...validReport().header, pages: pageCount },
+    pages: pages.map(page => ({ ...validReport().pages[0], page, steps: [] })),
+  });
+
+  it('lists the pages counted from 0 that have no entry', () => {
+    expect(findMissingPages(withPages(6, ['0', '1', '2', '5']))).toEqual([3, 4]);
+  });
+
+  it('counts from 1 when the report has no page 0', () => {
+    expect(findMissingPages(withPages(3, ['1', '2', '3']))).toEqual([]);
+    expect(findMissingPages(withPages(3, ['2']))).toEqual([1, 3]);
+  });
+});
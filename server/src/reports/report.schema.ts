@@ -0,0 +1,317 @@
+import { ReportDocument } from './report.types';
+
+export interface ReportValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a report document does not match the report schema.
+ * `issues` lists every problem found, each with the JSON path it refers to.
+ */
+export class ReportValidationError extends Error {
+  constructor(public readonly issues: ReportValidationIssue[], source?: string) {
+    super(
+      `Invalid report document${source ? ` (${source})` : ''}: ` +
+      issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ') +
+      (issues.length > 5 ? ` (and ${issues.length - 5} more)` : '')
+    );
+    this.name = 'ReportValidationError';
+  }
+}
+
+/**
+ * Minimal runtime schema: a validator pushes an issue for every mismatch
+ * instead of stopping at the first one, so upload errors can list them all.
+ */
+type Validator = (value: unknown, path: string, issues: ReportValidationIssue[]) => void;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const string = (): Validator => (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected string, got ${describe(value)}` });
+  }
+};
+
+const nonEmptyString = (): Validator => (value, path, issues) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push({ path, message: `expected non-empty string, got ${typeof value === 'string' ? 'empty string' : describe(value)}` });
+  }
+};
+
+const number = (range?: { min?: number; max?: number; integer?: boolean }): Validator => (value, path, issues) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    issues.push({ path, message: `expected number, got ${describe(value)}` });
+    return;
+  }
+  if (range?.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `expected integer, got ${value}` });
+  }
+  if (range?.min !== undefined && value < range.min) {
+    issues.push({ path, message: `expected a value >= ${range.min}, got ${value}` });
+  }
+  if (range?.max !== undefined && value > range.max) {
+    issues.push({ path, message: `expected a value <= ${range.max}, got ${value}` });
+  }
+};
+
+/** A page number stored as a numeric string, e.g. "4" */
+const numericString = (): Validator => (value, path, issues) => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    issues.push({ path, message: `expected numeric string, got ${typeof value === 'string' ? `"${value}"` : describe(value)}` });
+  }
+};
+
+const boolean = (): Validator => (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+  }
+};
+
+const oneOf = (...validators: Validator[]): Validator => (value, path, issues) => {
+  const attempts = validators.map(validator => {
+    const found: ReportValidationIssue[] = [];
+    validator(value, path, found);
+    return found;
+  });
+  if (attempts.every(found => found.length > 0)) {
+    issues.push(...attempts[0]);
+  }
+};
+
+const nullable = (validator: Validator): Validator => (value, path, issues) => {
+  if (value !== null) validator(value, path, issues);
+};
+
+const optional = (validator: Validator): Validator => (value, path, issues) => {
+  if (value !== undefined) validator(value, path, issues);
+};
+
+const array = (item: Validator): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, got ${describe(value)}` });
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+const object = (shape: Record<string, Validator>): Validator => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+    return;
+  }
+  for (const [key, validator] of Object.entries(shape)) {
+    const entry = (value as Record<string, unknown>)[key];
+    const entryPath = path ? `${path}.${key}` : key;
+    validator(entry, entryPath, issues);
+  }
+};
+
+const required = (validator: Validator): Validator => (value, path, issues) => {
+  if (value === undefined) {
+    issues.push({ path, message: 'is required' });
+    return;
+  }
+  validator(value, path, issues);
+};
+
+const fraction = () => number({ min: 0, max: 1 });
+
+const highlightSchema = object({
+  top: required(fraction()),
+  left: required(fraction()),
+  width: required(fraction()),
+  height: required(fraction()),
+});
+
+const templateSchema = object({
+  title: optional(string()),
+  content: optional(string()),
+  contentKey: optional(string()),
+  renderer: optional(string()),
+  namespace: optional(string()),
+  showHighlight: optional(boolean()),
+  printHighlight: optional(boolean()),
+  highlight: optional(nullable(highlightSchema)),
+  tocSubIndex: optional(nullable(number({ integer: true }))),
+});
+
+const scoreItemSchema = object({
+  key: required(nonEmptyString()),
+  name: required(string()),
+  level: required(number()),
+  score: optional(number()),
+  successScore: optional(number()),
+  successLevel: optional(number()),
+  description: optional(string()),
+  levelLabel: optional(string()),
+  fanContent: optional(object({
+    sentence1: optional(string()),
+    sentence2: optional(string()),
+  })),
+  fanContentKey: optional(string()),
+});
+
+/** Steps reference either a full score item or just a key (e.g. a driver pair) */
+const stepScoreSchema = object({
+  key: required(nonEmptyString()),
+  name: optional(string()),
+  level: optional(number()),
+});
+
+const stepSchema = object({
+  stepKey: required(nonEmptyString()),
+  page: required(number({ integer: true, min: 0 })),
+  sortOrder: required(number()),
+  title: required(string()),
+  content: required(string()),
+  template: optional(nullable(templateSchema)),
+  score: optional(stepScoreSchema),
+});
+
+const pageSchema = object({
+  page: required(numericString()),
+  pageCode: required(nonEmptyString()),
+  pageTitle: required(string()),
+  sectionKey: optional(string()),
+  steps: required(array(stepSchema)),
+});
+
+const scoresSchema = object({
+  traits: required(array(scoreItemSchema)),
+  drivers: required(array(scoreItemSchema)),
+  competencies: required(array(scoreItemSchema)),
+  otherCompetencies: optional(array(scoreItemSchema)),
+  combinedDev: optional(array(scoreItemSchema)),
+  traitsFan: optional(array(scoreItemSchema)),
+  competencyDevelopment: optional(array(scoreItemSchema)),
+  content: optional(array(object({
+    category: required(string()),
+    key: required(string()),
+  }))),
+  driverPairs: optional(array(object({
+    key: required(nonEmptyString()),
+  }))),
+});
+
+const reportSchema = object({
+  liveReportKey: required(nonEmptyString()),
+  participantId: required(nonEmptyString()),
+  documentKey: required(nonEmptyString()),
+  language: required(string()),
+  showDynamicFeedbackSpeedControl: optional(boolean()),
+  languages: required(array(object({
+    language: required(nonEmptyString()),
+    displayLanguage: required(string()),
+    persona: required(nonEmptyString()),
+    gender: optional(string()),
+    tone: optional(string()),
+  }))),
+  header: required(object({
+    liveReportKey: required(nonEmptyString()),
+    reportName: required(string()),
+    pages: required(number({ integer: true, min: 0 })),
+    language: required(string()),
+    defaultPersonaKey: optional(string()),
+    gaurdrailPromptKey: optional(string()),
+    design: optional(nullable(object({
+      prompt: optional(string()),
+    }))),
+  })),
+  pages: required(array(pageSchema)),
+  sections: required(array(object({
+    sectionKey: required(nonEmptyString()),
+    sectionTitle: optional(nullable(string())),
+    sectionSortOrder: optional(nullable(oneOf(number(), string()))),
+  }))),
+  scores: required(scoresSchema),
+});
+
+// Authored reports start with a cover page 0; generated ones are numbered like the PDF viewer, from 1
+const firstPageNumber = (pages: ReportDocument['pages']): number => (pages.some(page => page.page === '0') ? 0 : 1);
+
+/**
+ * Page numbers counted by `header.pages`, from 0 when the report has a page 0, otherwise from 1
+ * @param report Report to number
+ */
+export const reportPageNumbers = ({ header, pages }: Pick<ReportDocument, 'header' | 'pages'>): number[] => {
+  const firstPage = firstPageNumber(pages);
+  return Array.from({ length: Math.max(header.pages, 0) }, (_, index) => firstPage + index);
+};
+
+/**
+ * Pages counted by `header.pages` that the report has no entry for
+ * @param report Report to check
+ */
+export const findMissingPages = (report: Pick<ReportDocument, 'header' | 'pages'>): number[] => {
+  const presentPages = new Set(report.pages.map(page => Number(page.page)));
+  return reportPageNumbers(report).filter(page => !presentPages.has(page));
+};
+
+/**
+ * Cross-field checks that a shape-only schema cannot express
+ */
+const checkConsistency = (report: ReportDocument, issues: ReportValidationIssue[]) => {
+  if (report.header.liveReportKey !== report.liveReportKey) {
+    issues.push({ path: 'header.liveReportKey', message: `does not match liveReportKey "${report.liveReportKey}"` });
+  }
+
+  // header.pages is the page count; pages[] may skip pages but never exceed it
+  const pageCount = report.header.pages;
+  if (report.pages.length > pageCount) {
+    issues.push({ path: 'pages', message: `has ${report.pages.length} entries but header.pages is ${pageCount}` });
+  }
+
+  const pageNumbers = new Set(reportPageNumbers(report));
+  const seenPages = new Set<string>();
+  report.pages.forEach((page, pageIndex) => {
+    if (seenPages.has(page.page)) {
+      issues.push({ path: `pages[${pageIndex}].page`, message: `duplicate page "${page.page}"` });
+    }
+    seenPages.add(page.page);
+
+    if (!pageNumbers.has(Number(page.page))) {
+      issues.push({ path: `pages[${pageIndex}].page`, message: `page ${page.page} is outside header.pages (${pageCount} pages, numbered from ${firstPageNumber(report.pages)})` });
+    }
+
+    page.steps.forEach((step, stepIndex) => {
+      if (String(step.page) !== page.page) {
+        issues.push({ path: `pages[${pageIndex}].steps[${stepIndex}].page`, message: `expected ${page.page} to match its page, got ${step.page}` });
+      }
+    });
+  });
+
+  const sectionKeys = new Set(report.sections.map(section => section.sectionKey));
+  report.pages.forEach((page, pageIndex) => {
+    if (page.sectionKey && !sectionKeys.has(page.sectionKey)) {
+      issues.push({ path: `pages[${pageIndex}].sectionKey`, message: `unknown section "${page.sectionKey}"` });
+    }
+  });
+};
+
+/**
+ * Validate an untrusted value against the report schema
+ * @param input Parsed JSON value
+ * @param source Optional label (e.g. a file path) included in the error message
+ * @returns The same value typed as a ReportDocument
+ * @throws ReportValidationError listing every issue found
+ */
+export function validateReportDocument(input: unknown, source?: string): ReportDocument {
+  const issues: ReportValidationIssue[] = [];
+  reportSchema(input, '', issues);
+
+  if (!issues.length) {
+    checkConsistency(input as ReportDocument, issues);
+  }
+
+  if (issues.length) {
+    throw new ReportValidationError(issues, source);
+  }
+
+  return input as ReportDocument;
+}
@@ -0,0 +1,198 @@
+/**
+ * Domain model for a live report document (the `prompt-data.json` format).
+ * Only the fields the server relies on are listed; any additional keys in the
+ * source document are preserved as-is and typed `unknown`, so a misspelled field
+ * can't be used as if it existed.
+ */
+
+/** Normalized rectangle on a PDF page, every value is a fraction of the page (0-1) */
+export interface HighlightRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+export interface ReportDesign {
+  prompt?: string;
+  welcomeVideo?: string;
+  backgroundUrl?: string;
+  isMicroLearnEnabled?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ReportHeader {
+  liveReportKey: string;
+  reportName: string;
+  configName?: string;
+  documentName?: string;
+  defaultNamespace?: string;
+  status?: string | null;
+  pages: number;
+  pageWidth?: number;
+  pageHeight?: number;
+  design?: ReportDesign | null;
+  language: string;
+  defaultPersonaKey?: string;
+  gaurdrailPromptKey?: string;
+  welcomeVideo?: {
+    video?: string;
+    cover?: string;
+    captions?: string;
+  };
+  [key: string]: unknown;
+}
+
+export interface StepTemplate {
+  title?: string;
+  content?: string;
+  contentKey?: string;
+  generated?: boolean;
+  itemIndex?: number | null;
+  itemKey?: string | null;
+  renderCode?: string;
+  renderer?: string;
+  namespace?: string;
+  status?: string;
+  showHighlight?: boolean;
+  printHighlight?: boolean;
+  highlight?: HighlightRect | null;
+  chatHide?: boolean;
+  tocSubIndex?: number | null;
+  [key: string]: unknown;
+}
+
+export interface ReportStep {
+  stepKey: string;
+  page: number;
+  pageCode?: string;
+  pageTitle?: string;
+  showPage?: string | number;
+  sortOrder: number;
+  title: string;
+  content: string;
+  template?: StepTemplate | null;
+  score?: ScoreItem | DriverPair;
+  time?: number;
+  pause?: boolean;
+  tocLink?: string;
+  nextStepKey?: string;
+  [key: string]: unknown;
+}
+
+export interface ReportPage {
+  liveReportKey?: string;
+  page: string;
+  pageCode: string;
+  pageTitle: string;
+  sectionKey?: string;
+  personaKey?: string;
+  design?: Record<string, unknown> | null;
+  url?: string;
+  showPage?: string;
+  steps: ReportStep[];
+  [key: string]: unknown;
+}
+
+export interface ReportSection {
+  liveReportKey?: string;
+  sectionKey: string;
+  sectionSortOrder?: number | null;
+  sectionTitle?: string | null;
+  isSectionRequired?: number;
+  [key: string]: unknown;
+}
+
+/** A narrator persona available for the report, one per language/voice */
+export interface ReportLanguage {
+  language: string;
+  displayLanguage: string;
+  persona: string;
+  synthesiaName?: string;
+  country?: string;
+  dialectName?: string;
+  gender?: string;
+  tone?: string;
+  squarePlaceholder?: string | null;
+  [key: string]: unknown;
+}
+
+export interface FanContent {
+  sentence1?: string;
+  sentence2?: string;
+  [key: string]: unknown;
+}
+
+/** A scored trait, driver or competency */
+export interface ScoreItem {
+  key: string;
+  name: string;
+  level: number;
+  score?: number;
+  successScore?: number;
+  successLevel?: number;
+  isSuccessCustom?: boolean;
+  description?: string;
+  levelLabel?: string;
+  importanceOrder?: number;
+  index?: number;
+  fanContent?: FanContent;
+  fanContentKey?: string;
+  position?: string;
+  relative?: string;
+  scoreType?: string;
+  [key: string]: unknown;
+}
+
+export interface ScoreContentRef {
+  category: string;
+  key: string;
+}
+
+export interface DriverPair {
+  key: string;
+  [key: string]: unknown;
+}
+
+export interface ReportScores {
+  traits: ScoreItem[];
+  drivers: ScoreItem[];
+  competencies: ScoreItem[];
+  otherCompetencies?: ScoreItem[];
+  successTraits?: ScoreItem[];
+  content?: ScoreContentRef[];
+  successComp?: ScoreItem[];
+  combinedDev?: ScoreItem[];
+  combinedDevSuccess?: ScoreItem[];
+  successLowCompFan?: ScoreItem[];
+  traitsFan?: ScoreItem[];
+  successTraitsFan?: ScoreItem[];
+  successCompFan?: ScoreItem[];
+  driverPairs?: DriverPair[];
+  competencyDevelopment?: ScoreItem[];
+  [key: string]: unknown;
+}
+
+export interface ReportDocument {
+  liveReportKey: string;
+  participantId: string;
+  documentKey: string;
+  documentName?: string;
+  firstName?: string;
+  lastName?: string;
+  language: string;
+  showDynamicFeedbackSpeedControl?: boolean;
+  dynamicReportsChat?: boolean;
+  successProfile?: {
+    title?: string;
+    jobLevel?: string;
+    familyName?: string;
+    subFamilyName?: string;
+  };
+  languages: ReportLanguage[];
+  header: ReportHeader;
+  pages: ReportPage[];
+  sections: ReportSection[];
+  scores: ReportScores;
+  [key: string]: unknown;
+}
@@ -0,0 +1,148 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Logger,
+  Param,
+  ParseIntPipe,
+  Post,
+  Res,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { ReportsService, ReportOutline, ReportSummary, ReportToc } from './reports.service';
+import { ReportValidationError } from './report.schema';
+import { ReportPage, ReportStep, ScoreItem } from './report.types';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+interface ReportUploadFiles {
+  data?: Express.Multer.File[];
+  pdf?: Express.Multer.File[];
+}
+
+@Controller('reports')
+export class ReportsController {
+  private readonly logger = new Logger(ReportsController.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * Upload a report as multipart form data.
+   * `data` is the prompt-data JSON, sent as a file or a text field; `pdf` is the report PDF.
+   */
+  @Post()
+  @UseInterceptors(FileFieldsInterceptor(
+    [{ name: 'data', maxCount: 1 }, { name: 'pdf', maxCount: 1 }],
+    { limits: { fileSize: MAX_UPLOAD_BYTES } },
+  ))
+  uploadReport(
+    @UploadedFiles() files: ReportUploadFiles = {},
+    @Body('data') dataField?: string,
+  ): ReportSummary {
+    const pdf = files.pdf?.[0];
+    if (!pdf) {
+      throw new BadRequestException('A "pdf" file is required');
+    }
+    if (pdf.buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      throw new BadRequestException('The "pdf" file is not a PDF document');
+    }
+
+    const rawData = files.data?.[0]?.buffer.toString('utf-8') ?? dataField;
+    if (!rawData) {
+      throw new BadRequestException('A "data" prompt-data JSON file or field is required');
+    }
+
+    let input: unknown;
+    try {
+      input = JSON.parse(rawData);
+    } catch (error) {
+      throw new BadRequestException(`"data" is not valid JSON: ${error.message}`);
+    }
+
+    try {
+      const summary = this.reportsService.createReport(input, pdf.buffer);
+      this.logger.log(`Uploaded report ${summary.reportKey}: ${summary.pages}/${summary.pageCount} pages, ${summary.steps} steps`);
+      return summary;
+    } catch (error) {
+      if (error instanceof ReportValidationError) {
+        throw new BadRequestException({
+          message: error.message,
+          issues: error.issues,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List every stored report
+   */
+  @Get()
+  listReports(): ReportSummary[] {
+    return this.reportsService.listSummaries();
+  }
+
+  /**
+   * Get the structure of a report without step content
+   */
+  @Get(':key')
+  getReport(@Param('key') key: string): ReportOutline {
+    return this.reportsService.getOutline(key);
+  }
+
+  /**
+   * Get the table of contents: sections, pages and step titles
+   */
+  @Get(':key/toc')
+  getToc(@Param('key') key: string): ReportToc {
+    return this.reportsService.getToc(key);
+  }
+
+  /**
+   * Download the report PDF
+   */
+  @Get(':key/pdf')
+  getPdf(@Param('key') key: string, @Res() res: Response) {
+    res.type('application/pdf').sendFile(this.reportsService.getPdfPath(key));
+  }
+
+  /**
+   * Get a page with its steps in narration order
+   */
+  @Get(':key/pages/:page')
+  getPage(
+    @Param('key') key: string,
+    @Param('page', ParseIntPipe) page: number,
+  ): ReportPage {
+    return {
+      ...this.reportsService.getPage(key, page),
+      steps: this.reportsService.getPageSteps(key, page),
+    };
+  }
+
+  /**
+   * Get the steps of a page in narration order
+   */
+  @Get(':key/pages/:page/steps')
+  getPageSteps(
+    @Param('key') key: string,
+    @Param('page', ParseIntPipe) page: number,
+  ): ReportStep[] {
+    return this.reportsService.getPageSteps(key, page);
+  }
+
+  /**
+   * Get the scores of one category, e.g. traits, drivers or competencies
+   */
+  @Get(':key/scores/:category')
+  getScores(
+    @Param('key') key: string,
+    @Param('category') category: string,
+  ): ScoreItem[] {
+    return this.reportsService.getScores(key, category);
+  }
+}
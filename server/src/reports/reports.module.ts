@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { ReportsRepository } from './reports.repository';
+import { ReportsController } from './reports.controller';
+import { ScoreContextBuilder } from './score-context.builder';
+import { PageContextBuilder } from './page-context.builder';
+import { ContentModule } from '../content/content.module';
+
+@Module({
+  imports: [ContentModule],
+  controllers: [ReportsController],
+  providers: [ReportsRepository, ReportsService, ScoreContextBuilder, PageContextBuilder],
+  exports: [ReportsRepository, ReportsService, ScoreContextBuilder, PageContextBuilder]
+})
+export class ReportsModule {}
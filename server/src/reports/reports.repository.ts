@@ -0,0 +1,206 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReportDocument } from './report.types';
+import { ReportValidationError, validateReportDocument } from './report.schema';
+
+const REPORT_DATA_FILE = 'prompt-data.json';
+const REPORT_PDF_FILE = 'report.pdf';
+
+/** Key clients may use to address the default report without knowing its documentKey */
+export const DEFAULT_REPORT_ALIAS = 'default';
+
+/** A report as held by the repository, keyed by its documentKey */
+export interface StoredReport {
+  key: string;
+  document: ReportDocument;
+  dataPath: string;
+  pdfPath: string | null;
+  bundled: boolean;
+}
+
+/** Any combination of identifiers a client may use to select a report */
+export interface ReportLookup {
+  documentKey?: string;
+  liveReportKey?: string;
+  participantId?: string;
+}
+
+/**
+ * Stores report documents and their PDFs on disk, one directory per report:
+ * `<REPORTS_DIR>/<documentKey>/prompt-data.json` and `report.pdf`.
+ *
+ * The sample report bundled in `public/` is always registered and acts as the
+ * default when a lookup names no report.
+ */
+@Injectable()
+export class ReportsRepository implements OnModuleInit {
+  private readonly logger = new Logger(ReportsRepository.name);
+  private readonly reportsDir: string;
+  private readonly reports = new Map<string, StoredReport>();
+  private defaultKey: string | null = null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.reportsDir = path.resolve(
+      this.configService.get<string>('REPORTS_DIR') || path.join(process.cwd(), 'data', 'reports')
+    );
+  }
+
+  onModuleInit() {
+    this.loadBundledReport();
+    this.loadStoredReports();
+
+    const configuredDefault = this.configService.get<string>('DEFAULT_REPORT_KEY');
+    if (configuredDefault) {
+      if (this.reports.has(configuredDefault)) {
+        this.defaultKey = configuredDefault;
+      } else {
+        this.logger.warn(`DEFAULT_REPORT_KEY ${configuredDefault} not found, keeping ${this.defaultKey}`);
+      }
+    }
+
+    this.logger.log(`Report repository ready with ${this.reports.size} report(s), default: ${this.defaultKey}`);
+  }
+
+  /**
+   * Get a report by its key (documentKey)
+   * @param key Report key, the default report when omitted or `default`
+   */
+  get(key?: string): StoredReport {
+    const reportKey = !key || key === DEFAULT_REPORT_ALIAS ? this.defaultKey : key;
+    const report = reportKey ? this.reports.get(reportKey) : undefined;
+
+    if (!report) {
+      throw new NotFoundException(`Report not found: ${key || '(default)'}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Find the report matching every identifier given
+   * @param lookup documentKey, liveReportKey and/or participantId
+   * @returns The default report when no identifier is given
+   */
+  find(lookup: ReportLookup = {}): StoredReport {
+    const { documentKey, liveReportKey, participantId } = lookup;
+
+    if (!documentKey && !liveReportKey && !participantId) {
+      return this.get();
+    }
+
+    const matches = this.list().filter(({ document }) =>
+      (!documentKey || document.documentKey === documentKey) &&
+      (!liveReportKey || document.liveReportKey === liveReportKey) &&
+      (!participantId || String(document.participantId) === String(participantId))
+    );
+
+    if (!matches.length) {
+      throw new NotFoundException(`No report found for ${JSON.stringify(lookup)}`);
+    }
+
+    if (matches.length > 1) {
+      this.logger.warn(`${matches.length} reports match ${JSON.stringify(lookup)}, using ${matches[0].key}`);
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * List all known reports
+   */
+  list(): StoredReport[] {
+    return Array.from(this.reports.values());
+  }
+
+  /**
+   * Validate and store a report document with its PDF, replacing any report with the same key
+   * @param input Parsed prompt-data JSON
+   * @param pdf PDF file contents
+   */
+  save(input: unknown, pdf: Buffer): StoredReport {
+    try {
+      const document = validateReportDocument(input);
+      const key = document.documentKey;
+
+      // The key names the report's directory and URLs, so it is checked like the rest of the document
+      if (!/^[\w-]+$/.test(key) || key === DEFAULT_REPORT_ALIAS) {
+        throw new ReportValidationError([{
+          path: 'documentKey',
+          message: key === DEFAULT_REPORT_ALIAS
+            ? `"${DEFAULT_REPORT_ALIAS}" is reserved for the default report`
+            : 'may only contain letters, digits, "_" and "-"',
+        }]);
+      }
+
+      const reportDir = path.join(this.reportsDir, key);
+      fs.mkdirSync(reportDir, { recursive: true });
+
+      const dataPath = path.join(reportDir, REPORT_DATA_FILE);
+      const pdfPath = path.join(reportDir, REPORT_PDF_FILE);
+      fs.writeFileSync(dataPath, JSON.stringify(document, null, 2));
+      fs.writeFileSync(pdfPath, pdf);
+
+      const stored: StoredReport = { key, document, dataPath, pdfPath, bundled: false };
+      this.reports.set(key, stored);
+      this.logger.log(`Stored report ${key} (participant ${document.participantId}) in ${reportDir}`);
+
+      return stored;
+    } catch (error) {
+      this.logger.error('Error storing report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register the sample report shipped in public/
+   */
+  private loadBundledReport() {
+    const publicDir = path.join(process.cwd(), 'public');
+    const dataPath = path.join(publicDir, REPORT_DATA_FILE);
+
+    if (!fs.existsSync(dataPath)) {
+      this.logger.warn(`No bundled report found at ${dataPath}`);
+      return;
+    }
+
+    const pdfPath = path.join(publicDir, 'KF360.pdf');
+    const report = this.readReport(dataPath, fs.existsSync(pdfPath) ? pdfPath : null, true);
+    this.defaultKey = report.key;
+  }
+
+  /**
+   * Register every report directory under REPORTS_DIR, skipping invalid ones
+   */
+  private loadStoredReports() {
+    if (!fs.existsSync(this.reportsDir)) {
+      return;
+    }
+
+    for (const entry of fs.readdirSync(this.reportsDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const dataPath = path.join(this.reportsDir, entry.name, REPORT_DATA_FILE);
+      const pdfPath = path.join(this.reportsDir, entry.name, REPORT_PDF_FILE);
+      if (!fs.existsSync(dataPath)) continue;
+
+      try {
+        this.readReport(dataPath, fs.existsSync(pdfPath) ? pdfPath : null, false);
+      } catch (error) {
+        this.logger.error(`Skipping invalid report in ${entry.name}: ${error.message}`);
+      }
+    }
+  }
+
+  private readReport(dataPath: string, pdfPath: string | null, bundled: boolean): StoredReport {
+    const raw = fs.readFileSync(dataPath, 'utf-8');
+    const document = validateReportDocument(JSON.parse(raw), dataPath);
+    const stored: StoredReport = { key: document.documentKey, document, dataPath, pdfPath, bundled };
+
+    this.reports.set(stored.key, stored);
+    this.logger.log(`Loaded report ${stored.key} with ${document.pages.length} pages from ${dataPath}`);
+
+    return stored;
+  }
+}
@@ -0,0 +1,315 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  ReportDocument,
+  ReportHeader,
+  ReportPage,
+  ReportSection,
+  ReportStep,
+  ScoreItem,
+} from './report.types';
+import { ReportLookup, ReportsRepository } from './reports.repository';
+import { findMissingPages } from './report.schema';
+import { tokenize } from '../retrieval/bm25-index';
+
+/** Overview of a stored report returned by the upload API */
+export interface ReportSummary {
+  reportKey: string;
+  liveReportKey: string;
+  participantId: string;
+  reportName: string;
+  pageCount: number;
+  pages: number;
+  steps: number;
+  missingPages: number[];
+  hasPdf: boolean;
+}
+
+/** Report structure without step content, returned by `GET /reports/:key` */
+export interface ReportOutline extends ReportSummary {
+  /** Whether the participant gets a playback speed control */
+  showDynamicFeedbackSpeedControl: boolean;
+  header: ReportHeader;
+  sections: ReportSection[];
+  pageList: {
+    page: number;
+    pageCode: string;
+    pageTitle: string;
+    sectionKey?: string;
+    steps: number;
+  }[];
+  scoreCategories: string[];
+}
+
+/** A step listed in the table of contents */
+export interface TocStep {
+  stepKey: string;
+  /** Step title without its group, e.g. `empathy` for `Strengths>empathy` */
+  title: string;
+  /** Group heading the step starts, e.g. `Strengths` for `Strengths>empathy` */
+  heading?: string;
+  /** 0 for top-level steps, 1 for sub-items (titles with `>`) */
+  level: number;
+  /** Index of the scored item the step covers, from `template.tocSubIndex` */
+  tocSubIndex: number | null;
+}
+
+export interface TocPage {
+  page: number;
+  pageCode: string;
+  pageTitle: string;
+  steps: TocStep[];
+}
+
+export interface TocSection {
+  sectionKey: string | null;
+  sectionTitle: string | null;
+  pages: TocPage[];
+}
+
+/** Table of contents of a report, returned by `GET /reports/:key/toc` */
+export interface ReportToc {
+  reportKey: string;
+  reportName: string;
+  sections: TocSection[];
+}
+
+// Words that don't identify a page in references like "take me to my drivers page", besides the search stopwords
+const REFERENCE_STOPWORDS = new Set(['go', 'open', 'page', 'section', 'show', 'take']);
+
+/**
+ * Split a page reference into comparable words, the same way report text is indexed for search
+ */
+const referenceWords = (reference: string): string[] => tokenize(reference)
+  .filter(word => !REFERENCE_STOPWORDS.has(word));
+
+@Injectable()
+export class ReportsService {
+  constructor(private readonly reportsRepository: ReportsRepository) {}
+
+  /**
+   * Get a validated report document
+   * @param reportKey Report key, the default report when omitted
+   */
+  getReport(reportKey?: string): ReportDocument {
+    return this.reportsRepository.get(reportKey).document;
+  }
+
+  /**
+   * Validate and store an uploaded report with its PDF
+   * @param input Parsed prompt-data JSON
+   * @param pdf PDF file contents
+   */
+  createReport(input: unknown, pdf: Buffer): ReportSummary {
+    const { key } = this.reportsRepository.save(input, pdf);
+    return this.getSummary(key);
+  }
+
+  /**
+   * Summarize a report's pages and steps
+   * @param reportKey Report key, the default report when omitted
+   */
+  getSummary(reportKey?: string): ReportSummary {
+    const { key, document, pdfPath } = this.reportsRepository.get(reportKey);
+    return {
+      reportKey: key,
+      liveReportKey: document.liveReportKey,
+      participantId: document.participantId,
+      reportName: document.header.reportName,
+      pageCount: document.header.pages,
+      pages: document.pages.length,
+      steps: document.pages.reduce((total, page) => total + page.steps.length, 0),
+      missingPages: findMissingPages(document),
+      hasPdf: Boolean(pdfPath),
+    };
+  }
+
+  /**
+   * Get the structure of a report: header, sections, pages and score categories
+   * @param reportKey Report key, the default report when omitted
+   */
+  getOutline(reportKey?: string): ReportOutline {
+    const summary = this.getSummary(reportKey);
+    const document = this.getReport(summary.reportKey);
+
+    return {
+      ...summary,
+      showDynamicFeedbackSpeedControl: !!document.showDynamicFeedbackSpeedControl,
+      header: document.header,
+      sections: document.sections,
+      pageList: document.pages.map(page => ({
+        page: Number(page.page),
+        pageCode: page.pageCode,
+        pageTitle: page.pageTitle,
+        sectionKey: page.sectionKey,
+        steps: page.steps.length,
+      })),
+      scoreCategories: Object.keys(document.scores).filter(category => Array.isArray(document.scores[category])),
+    };
+  }
+
+  /**
+   * Get the table of contents of a report: sections in order, their pages and the titles
+   * of the steps narrated on each page. Steps hidden from chat (`template.chatHide`) and
+   * steps without content are left out; pages outside any section are listed last.
+   * @param reportKey Report key, the default report when omitted
+   */
+  getToc(reportKey?: string): ReportToc {
+    const { reportKey: key, reportName } = this.getSummary(reportKey);
+    const document = this.getReport(key);
+
+    const sections: TocSection[] = [...document.sections]
+      .sort((a, b) => (a.sectionSortOrder ?? 0) - (b.sectionSortOrder ?? 0))
+      .map(section => ({ sectionKey: section.sectionKey, sectionTitle: section.sectionTitle, pages: [] }));
+    const unsectioned: TocSection = { sectionKey: null, sectionTitle: null, pages: [] };
+
+    const pages = [...document.pages].sort((a, b) => Number(a.page) - Number(b.page));
+    for (const page of pages) {
+      const section = sections.find(entry => entry.sectionKey === page.sectionKey) || unsectioned;
+      section.pages.push({
+        page: Number(page.page),
+        pageCode: page.pageCode,
+        pageTitle: page.pageTitle,
+        steps: this.getTocSteps(this.getPageSteps(key, Number(page.page))),
+      });
+    }
+
+    return {
+      reportKey: key,
+      reportName,
+      sections: [...sections, unsectioned].filter(section => section.pages.length > 0),
+    };
+  }
+
+  /**
+   * List summaries of every stored report
+   */
+  listSummaries(): ReportSummary[] {
+    return this.reportsRepository.list().map(({ key }) => this.getSummary(key));
+  }
+
+  /**
+   * Resolve the key of the report a session should be bound to
+   * @param lookup documentKey, liveReportKey and/or participantId sent by the client
+   */
+  resolveReportKey(lookup: ReportLookup = {}): string {
+    return this.reportsRepository.find(lookup).key;
+  }
+
+  /**
+   * Get a single page of a report
+   * @param reportKey Report key, the default report when omitted
+   * @param pageNumber Page number as shown in the PDF viewer
+   */
+  getPage(reportKey: string | undefined, pageNumber: number): ReportPage {
+    const page = this.getReport(reportKey).pages.find(entry => entry.page === pageNumber.toString());
+
+    if (!page) {
+      throw new NotFoundException(`Page ${pageNumber} not found in prompt data`);
+    }
+
+    return page;
+  }
+
+  /**
+   * Get the steps of a page in narration order
+   * @param reportKey Report key, the default report when omitted
+   * @param pageNumber Page number as shown in the PDF viewer
+   */
+  getPageSteps(reportKey: string | undefined, pageNumber: number): ReportStep[] {
+    return [...this.getPage(reportKey, pageNumber).steps].sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  /**
+   * Find the page a spoken or typed reference points to, e.g. "my drivers page", "page8" or "page 3".
+   * Matches the page number, `pageCode`, `pageTitle` or section title exactly first, then
+   * falls back to the page whose title shares the most words with the reference.
+   * @param reportKey Report key, the default report when omitted
+   * @param reference What the user asked for
+   * @returns null when nothing matches
+   */
+  findPage(reportKey: string | undefined, reference: string): ReportPage | null {
+    const report = this.getReport(reportKey);
+    const wanted = referenceWords(reference || '');
+    if (!wanted.length) {
+      return null;
+    }
+
+    const sectionTitle = (page: ReportPage) =>
+      report.sections.find(section => section.sectionKey === page.sectionKey)?.sectionTitle || '';
+    const wantedText = wanted.join(' ');
+
+    if (/^\d+$/.test(wantedText)) {
+      return report.pages.find(page => page.page === Number(wantedText).toString()) || null;
+    }
+
+    const exact = report.pages.find(page => [page.pageCode, page.pageTitle, sectionTitle(page)]
+      .some(value => value && referenceWords(value).join(' ') === wantedText));
+    if (exact) {
+      return exact;
+    }
+
+    // Most shared words wins; ties go to the page with the shortest title
+    let best: { page: ReportPage, matched: number, ratio: number } | null = null;
+    for (const page of report.pages) {
+      const titleWords = referenceWords(`${page.pageTitle} ${sectionTitle(page)}`);
+      const matched = titleWords.filter(word => wanted.includes(word)).length;
+      const ratio = matched / (titleWords.length || 1);
+
+      if (matched && (!best || matched > best.matched || (matched === best.matched && ratio > best.ratio))) {
+        best = { page, matched, ratio };
+      }
+    }
+
+    return best?.page || null;
+  }
+
+  /**
+   * Get the path of a report's PDF on disk
+   * @param reportKey Report key, the default report when omitted
+   */
+  getPdfPath(reportKey?: string): string {
+    const { key, pdfPath } = this.reportsRepository.get(reportKey);
+
+    if (!pdfPath) {
+      throw new NotFoundException(`Report ${key} has no PDF`);
+    }
+
+    return pdfPath;
+  }
+
+  /**
+   * Get the score items of one category, e.g. traits, drivers or competencies
+   * @param reportKey Report key, the default report when omitted
+   * @param category Key of the category in `scores`
+   */
+  getScores(reportKey: string | undefined, category: string): ScoreItem[] {
+    const scores = this.getReport(reportKey).scores[category];
+
+    if (!Array.isArray(scores)) {
+      throw new NotFoundException(`Score category ${category} not found`);
+    }
+
+    return scores;
+  }
+
+  /**
+   * Turn step titles into TOC entries. `Group>item` starts a group and `>item` continues
+   * the current one, so "Strengths>empathy", ">optimism" list both under "Strengths".
+   */
+  private getTocSteps(steps: ReportStep[]): TocStep[] {
+    return steps
+      .filter(step => !step.template?.chatHide && step.content && step.content.trim())
+      .map(step => {
+        const separator = (step.title || '').indexOf('>');
+        const heading = separator > 0 ? step.title.slice(0, separator).trim() : undefined;
+
+        return {
+          stepKey: step.stepKey,
+          title: (separator >= 0 ? step.title.slice(separator + 1) : step.title || '').trim(),
+          ...(heading ? { heading } : {}),
+          level: separator >= 0 ? 1 : 0,
+          tocSubIndex: step.template?.tocSubIndex ?? null,
+        };
+      });
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { ReportDocument, ScoreItem } from './report.types';
+import { ContentLibraryService, ContentLookup } from '../content/content-library.service';
+
+/** Score categories given to the model, in the order they are listed */
+const SCORE_CONTEXT_SECTIONS: { category: string, title: string }[] = [
+  { category: 'traits', title: 'Traits' },
+  { category: 'drivers', title: 'Drivers' },
+  { category: 'competencies', title: 'Competencies' },
+  { category: 'competencyDevelopment', title: 'Development areas (competencies to develop)' },
+];
+
+/**
+ * Turns a report's scores into model context, so answers about the participant's
+ * results are grounded in their actual traits, drivers and competencies.
+ */
+@Injectable()
+export class ScoreContextBuilder {
+  private readonly logger = new Logger(ScoreContextBuilder.name);
+
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly contentLibrary: ContentLibraryService,
+  ) {}
+
+  /**
+   * Build the score context of a report
+   * @param reportKey Report key, the default report when omitted
+   * @param language Session language for the interpretation sentences, the report's language when omitted
+   * @returns An empty string when the report has no scores
+   */
+  build(reportKey?: string, language?: string): string {
+    const report = this.reportsService.getReport(reportKey);
+    const lookup: ContentLookup = { namespace: report.header.defaultNamespace, language: language || report.language };
+
+    const sections = SCORE_CONTEXT_SECTIONS
+      .map(({ category, title }) => {
+        const items: ScoreItem[] = Array.isArray(report.scores?.[category]) ? report.scores[category] : [];
+        if (!items.length) {
+          return null;
+        }
+        return [`${title}:`, ...items.map(item => `- ${this.formatScoreItem(item, lookup)}`)].join('\n');
+      })
+      .filter(Boolean);
+
+    if (!sections.length) {
+      this.logger.warn(`Report ${report.documentKey} has no scores to build context from`);
+      return '';
+    }
+
+    return [
+      this.describeParticipant(report),
+      'Use these results when answering questions about the participant. Only refer to scores listed here and never invent results. Interpretations are authored sentences from the report; quote them when explaining what a result means.',
+      ...sections,
+    ].join('\n\n');
+  }
+
+  /**
+   * Describe a single score as one line: name, level, score, success profile target, description
+   * and the report's interpretation of the score
+   * @param item A trait, driver or competency
+   * @param lookup Where to find the interpretation sentences
+   */
+  formatScoreItem(item: ScoreItem, lookup: ContentLookup = {}): string {
+    const details = [`level ${item.level}`];
+
+    const levelLabel = this.normalizeLabel(item.levelLabel);
+    if (levelLabel) {
+      details[0] += ` (${levelLabel})`;
+    }
+    if (typeof item.score === 'number') {
+      details.push(`score ${this.formatNumber(item.score)}`);
+    }
+    if (typeof item.successScore === 'number') {
+      details.push(`success profile score ${this.formatNumber(item.successScore)}`);
+    } else if (typeof item.successLevel === 'number') {
+      details.push(`success profile level ${item.successLevel}`);
+    }
+
+    const description = item.description?.trim();
+    const interpretation = this.contentLibrary.getFanSentences(item, lookup).join(' ');
+    return `${item.name}: ${details.join(', ')}${description ? `. ${description}` : ''}${interpretation ? ` Interpretation: ${interpretation}` : ''}`;
+  }
+
+  private describeParticipant(report: ReportDocument): string {
+    const name = [report.firstName, report.lastName].filter(Boolean).join(' ');
+    const lines = [`Participant: ${name || 'unknown'}`];
+
+    const profile = report.successProfile;
+    if (profile?.title) {
+      lines.push(`Success profile: ${profile.title}${profile.jobLevel ? ` (${profile.jobLevel})` : ''}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  // Level labels come as e.g. "5 Contributes through others  Meets"
+  private normalizeLabel(label?: string): string {
+    if (!label) {
+      return '';
+    }
+    return label.replace(/^\d+\s*/, '').replace(/\s{2,}/g, ', ').trim();
+  }
+
+  private formatNumber(value: number): string {
+    return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+  }
+}
@@ -0,0 +1,64 @@
+import { Bm25Index, tokenize } from './bm25-index';
+
+describe('tokenize', () => {
+  it('lowercases, removes accents and splits on punctuation', () => {
+    expect(tokenize('Liderança, COMUNICAÇÃO-efetiva!')).toEqual(['lideranca', 'comunicacao', 'efetiva']);
+  });
+
+  it('drops stopwords in English and Portuguese', () => {
+    expect(tokenize('What is the score of my team')).toEqual(['score', 'team']);
+    expect(tokenize('o que é a minha equipe')).toEqual(['equipe']);
+  });
+
+  it('drops a plural s from longer words only', () => {
+    expect(tokenize('Drivers driver gas class')).toEqual(['driver', 'driver', 'gas', 'class']);
+  });
+
+  it('returns no terms for empty text', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize(undefined)).toEqual([]);
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = new Bm25Index<{ page: number }>();
+  index.add([
+    { text: 'Your drivers show what motivates you at work', meta: { page: 1 } },
+    { text: 'Competencies describe how you work with a team', meta: { page: 2 } },
+    { text: 'Drivers and competencies together: drivers, drivers, drivers', meta: { page: 3 } },
+    { text: 'the and of', meta: { page: 4 } },
+  ]);
+
+  it('skips passages without terms', () => {
+    expect(index.size).toBe(3);
+  });
+
+  it('ranks passages that mention the query terms more often first', () => {
+    const matches = index.search('What are my drivers?', 5);
+
+    expect(matches.map(match => match.meta.page)).toEqual([3, 1]);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('returns passages with their citation data', () => {
+    const [match] = index.search('team', 5);
+
+    expect(match).toEqual({ text: 'Competencies describe how you work with a team', meta: { page: 2 }, score: expect.any(Number) });
+  });
+
+  it('weighs rare terms above common ones', () => {
+    const matches = index.search('team drivers', 5);
+
+    expect(matches.map(match => match.meta.page)).toEqual([2, 3, 1]);
+  });
+
+  it('returns at most limit matches', () => {
+    expect(index.search('drivers competencies', 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for queries without matching terms', () => {
+    expect(index.search('salary', 5)).toEqual([]);
+    expect(index.search('what is the', 5)).toEqual([]);
+    expect(new Bm25Index().search('drivers', 5)).toEqual([]);
+  });
+});
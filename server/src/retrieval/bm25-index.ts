@@ -0,0 +1,101 @@
+/** A passage to index, with whatever the caller needs to cite it */
+export interface IndexedPassage<T> {
+  text: string;
+  meta: T;
+}
+
+export interface PassageMatch<T> extends IndexedPassage<T> {
+  score: number;
+}
+
+// Term frequency saturation and length normalization, the usual BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Frequent words that carry no meaning for retrieval, in the report languages
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'what',
+  'which', 'with', 'you', 'your',
+  'o', 'os', 'um', 'uma', 'de', 'da', 'das', 'dos', 'e', 'em', 'no', 'na', 'que', 'para', 'por', 'com', 'meu', 'minha',
+]);
+
+/**
+ * Split text into comparable terms: lowercase, accents removed, no stopwords and
+ * no plural `s`, so "Drivers" and "driver" match
+ */
+export const tokenize = (text: string): string[] => (text || '')
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .split(/[^a-z0-9]+/)
+  .filter(term => term && !STOPWORDS.has(term))
+  .map(term => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+
+/**
+ * In-memory BM25 index over short passages
+ */
+export class Bm25Index<T> {
+  private readonly passages: IndexedPassage<T>[] = [];
+  private readonly termCounts: Map<string, number>[] = [];
+  private readonly lengths: number[] = [];
+  private readonly documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  /**
+   * Add passages to the index
+   * @param passages Passages with their citation data
+   */
+  add(passages: IndexedPassage<T>[]): void {
+    for (const passage of passages) {
+      const terms = tokenize(passage.text);
+      if (!terms.length) continue;
+
+      const counts = new Map<string, number>();
+      terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+      counts.forEach((_count, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+
+      this.passages.push(passage);
+      this.termCounts.push(counts);
+      this.lengths.push(terms.length);
+      this.totalLength += terms.length;
+    }
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  /**
+   * Find the passages that best match a query
+   * @param query Free text, e.g. the user's question
+   * @param limit Most passages to return
+   * @returns Matches with a positive score, best first
+   */
+  search(query: string, limit: number): PassageMatch<T>[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (!terms.length || !this.passages.length) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.passages.length;
+    const idf = new Map(terms.map(term => {
+      const frequency = this.documentFrequency.get(term) || 0;
+      return [term, Math.log(1 + (this.passages.length - frequency + 0.5) / (frequency + 0.5))];
+    }));
+
+    return this.passages
+      .map((passage, index) => {
+        const counts = this.termCounts[index];
+        const lengthNorm = K1 * (1 - B + B * (this.lengths[index] / averageLength));
+        const score = terms.reduce((total, term) => {
+          const count = counts.get(term);
+          return count ? total + idf.get(term) * ((count * (K1 + 1)) / (count + lengthNorm)) : total;
+        }, 0);
+        return { ...passage, score };
+      })
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
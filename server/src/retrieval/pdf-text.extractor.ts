@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+
+/** Text of one PDF page */
+export interface PdfPageText {
+  /** Page number as shown in the PDF viewer, starting at 1 */
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Extract the text of every page of a PDF. Text items are joined in content
+ * stream order, which follows the reading order for generated reports.
+ * @param pdf Path of the PDF on disk, or its contents
+ */
+export const extractPdfPages = async (pdf: string | Buffer): Promise<PdfPageText[]> => {
+  // pdfjs takes ownership of the array it is given, so uploaded buffers are copied
+  const data = new Uint8Array(typeof pdf === 'string' ? await fs.promises.readFile(pdf) : pdf);
+  const document = await pdfjs.getDocument({ data, isEvalSupported: false, verbosity: 0 }).promise;
+
+  try {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\s*\n\s*/g, '\n')
+        .trim();
+
+      pages.push({ pageNumber, text });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+};
@@ -0,0 +1,164 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { ReportsService } from '../reports/reports.service';
+import { ReportDocument } from '../reports/report.types';
+import { Bm25Index, IndexedPassage } from './bm25-index';
+import { extractPdfPages } from './pdf-text.extractor';
+
+/** Where a passage comes from */
+export interface PassageSource {
+  /** Page number as shown in the PDF viewer */
+  pageNumber: number;
+  /** `pdf` for text extracted from the PDF, `step` for authored narration */
+  source: 'pdf' | 'step';
+  /** Title of the page in the prompt data, for authored steps */
+  title?: string;
+}
+
+export interface RetrievedPassage extends PassageSource {
+  text: string;
+  score: number;
+}
+
+/** Default number of passages given to the model */
+export const DEFAULT_RETRIEVAL_TOP_K = 4;
+
+// PDF text is cut into overlapping windows so a passage stays about one topic
+const PASSAGE_WORDS = 120;
+const PASSAGE_STRIDE = 90;
+
+interface CachedIndex {
+  document: ReportDocument;
+  pdfModified: number;
+  index: Promise<Bm25Index<PassageSource>>;
+}
+
+/**
+ * Lexical retrieval over everything a report says: the text of every PDF page,
+ * including charts, tables and pages without steps, plus the authored step content.
+ * One BM25 index is built per report on first use and rebuilt when the report or
+ * its PDF changes.
+ */
+@Injectable()
+export class ReportRetrievalService implements OnModuleInit {
+  private readonly logger = new Logger(ReportRetrievalService.name);
+  private readonly topK: number;
+  private readonly indexes = new Map<string, CachedIndex>();
+
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.topK = Number(this.configService.get<string>('RETRIEVAL_TOP_K')) || DEFAULT_RETRIEVAL_TOP_K;
+  }
+
+  onModuleInit() {
+    // Index the default report in the background so the first question doesn't wait for it
+    this.getIndex().catch(error => this.logger.warn(`Could not index the default report: ${error.message}`));
+  }
+
+  /**
+   * Find the passages of a report that best match a question
+   * @param reportKey Report key, the default report when omitted
+   * @param query The question
+   * @param limit Most passages to return, RETRIEVAL_TOP_K when omitted
+   */
+  async search(reportKey: string | undefined, query: string, limit: number = this.topK): Promise<RetrievedPassage[]> {
+    const index = await this.getIndex(reportKey);
+    return index.search(query, limit).map(({ text, meta, score }) => ({ ...meta, text, score }));
+  }
+
+  /**
+   * Model context with the passages matching a question and their page numbers
+   * @param reportKey Report key, the default report when omitted
+   * @param query The question
+   * @returns An empty string when nothing matches or the report can't be searched
+   */
+  async buildContext(reportKey: string | undefined, query: string): Promise<string> {
+    try {
+      const passages = await this.search(reportKey, query);
+      if (!passages.length) {
+        return '';
+      }
+
+      return [
+        'Passages from the report that match the question, with the page they are on. Use them when they help, and mention the page, e.g. "as page 7 shows".',
+        ...passages.map(passage => `${this.formatReference(passage)} ${passage.text}`),
+      ].join('\n\n');
+    } catch (error) {
+      this.logger.warn(`Retrieval failed for report ${reportKey || 'default'}: ${error.message}`);
+      return '';
+    }
+  }
+
+  /**
+   * Cite a passage, e.g. `[Page 7, Drivers]`
+   */
+  formatReference({ pageNumber, title }: PassageSource): string {
+    return `[Page ${pageNumber}${title ? `, ${title}` : ''}]`;
+  }
+
+  private getIndex(reportKey?: string): Promise<Bm25Index<PassageSource>> {
+    const { reportKey: key, hasPdf } = this.reportsService.getSummary(reportKey);
+    const document = this.reportsService.getReport(key);
+    const pdfPath = hasPdf ? this.reportsService.getPdfPath(key) : null;
+    const pdfModified = pdfPath ? fs.statSync(pdfPath).mtimeMs : 0;
+
+    const cached = this.indexes.get(key);
+    if (cached && cached.document === document && cached.pdfModified === pdfModified) {
+      return cached.index;
+    }
+
+    const index = this.buildIndex(key, document, pdfPath);
+    this.indexes.set(key, { document, pdfModified, index });
+    // A failed build is retried on the next question
+    index.catch(() => {
+      if (this.indexes.get(key)?.index === index) {
+        this.indexes.delete(key);
+      }
+    });
+    return index;
+  }
+
+  private async buildIndex(key: string, document: ReportDocument, pdfPath: string | null): Promise<Bm25Index<PassageSource>> {
+    const started = Date.now();
+    const index = new Bm25Index<PassageSource>();
+
+    if (pdfPath) {
+      const pages = await extractPdfPages(pdfPath);
+      index.add(pages.flatMap(({ pageNumber, text }) =>
+        this.splitPassages(text).map(passage => ({ text: passage, meta: { pageNumber, source: 'pdf' as const } }))
+      ));
+    }
+
+    const steps: IndexedPassage<PassageSource>[] = document.pages.flatMap(page => page.steps
+      .filter(step => step.content && step.content.trim())
+      .map(step => ({
+        text: `${step.title.replace(/>/g, ' ')}: ${step.content.trim().replace(/\s+/g, ' ')}`,
+        meta: { pageNumber: Number(page.page), source: 'step' as const, title: page.pageTitle },
+      })));
+    index.add(steps);
+
+    this.logger.log(`Indexed report ${key}: ${index.size} passages in ${Date.now() - started}ms`);
+    return index;
+  }
+
+  /**
+   * Cut a page into overlapping windows of words. Windows after the first start with
+   * the page's heading, so every part of a page about e.g. "Taking Initiative" matches it.
+   */
+  private splitPassages(text: string): string[] {
+    const firstLine = text.split('\n')[0].trim();
+    const heading = firstLine.length <= 80 ? firstLine : '';
+    const words = text.split(/\s+/).filter(Boolean);
+    const passages: string[] = [];
+
+    for (let start = 0; start < words.length; start += PASSAGE_STRIDE) {
+      const window = words.slice(start, start + PASSAGE_WORDS).join(' ');
+      passages.push(start > 0 && heading ? `${heading} ... ${window}` : window);
+      if (start + PASSAGE_WORDS >= words.length) break;
+    }
+    return passages;
+  }
+}
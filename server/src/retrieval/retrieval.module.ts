@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ReportRetrievalService } from './report-retrieval.service';
+import { ReportsModule } from '../reports/reports.module';
+
+@Module({
+  imports: [ReportsModule],
+  providers: [ReportRetrievalService],
+  exports: [ReportRetrievalService]
+})
+export class RetrievalModule {}
@@ -0,0 +1,134 @@
+import { ConversationMemory, estimateTokens } from './conversation-memory';
+
+// 40 characters, 10 estimated tokens
+const text = (label: string) => label.padEnd(40, '.');
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+    expect(estimateTokens(undefined)).toBe(0);
+  });
+});
+
+describe('ConversationMemory', () => {
+  let summarize: jest.Mock;
+
+  beforeEach(() => {
+    summarize = jest.fn(async (summary: string, messages: { content: string }[]) =>
+      [summary, ...messages.map(message => message.content[0])].filter(Boolean).join(' '));
+  });
+
+  const memoryWithTurns = (turns: number, tokenBudget = 100) => {
+    const memory = new ConversationMemory({ tokenBudget, summarize });
+    for (let turn = 0; turn < turns; turn++) {
+      memory.addTurn(text(`q${turn}`), text(`a${turn}`));
+    }
+    return memory;
+  };
+
+  it('keeps turns verbatim while they fit the budget', async () => {
+    const memory = memoryWithTurns(5);
+
+    await memory.compact();
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(memory.getTokenCount()).toBe(100);
+    expect(memory.getMessages()).toHaveLength(10);
+    expect(memory.getMessages()[0]).toEqual({ role: 'user', content: text('q0') });
+  });
+
+  it('folds the oldest messages until the history fits half the budget', async () => {
+    const memory = memoryWithTurns(6);
+
+    await memory.compact();
+
+    const folded = summarize.mock.calls[0][1];
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(summarize.mock.calls[0][0]).toBe('');
+    expect(folded.map(message => message.content)).toEqual([
+      text('q0'), text('a0'), text('q1'), text('a1'), text('q2'), text('a2'), text('q3'),
+    ]);
+
+    const messages = memory.getMessages();
+    expect(messages[0]).toEqual({ role: 'system', content: 'Summary of the earlier conversation: q a q a q a q' });
+    expect(messages.slice(1).map(message => message.content)).toEqual([text('a3'), text('q4'), text('a4'), text('q5'), text('a5')]);
+    expect(memory.getTokenCount()).toBe(50 + estimateTokens('q a q a q a q'));
+  });
+
+  it('always keeps the most recent messages', async () => {
+    const memory = new ConversationMemory({ tokenBudget: 10, summarize });
+    memory.addTurn(text('q0'), text('a0'));
+    memory.addTurn(text('q1'), text('a1'));
+    memory.addTurn(text('q2'), text('a2'));
+
+    await memory.compact();
+
+    expect(summarize.mock.calls[0][1]).toHaveLength(2);
+    expect(memory.getMessages().slice(1).map(message => message.content)).toEqual([
+      text('q1'), text('a1'), text('q2'), text('a2'),
+    ]);
+  });
+
+  it('extends the running summary on later folds', async () => {
+    const memory = memoryWithTurns(6);
+    await memory.compact();
+
+    for (let turn = 6; turn < 9; turn++) {
+      memory.addTurn(text(`q${turn}`), text(`a${turn}`));
+    }
+    await memory.compact();
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[1][0]).toBe('q a q a q a q');
+  });
+
+  it('shares one summary between concurrent compactions', async () => {
+    const memory = memoryWithTurns(6);
+
+    await Promise.all([memory.compact(), memory.compact()]);
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps turns added while the summary is written', async () => {
+    let finish: (summary: string) => void;
+    summarize.mockReturnValueOnce(new Promise(resolve => finish = resolve));
+    const memory = memoryWithTurns(6);
+
+    const compacting = memory.compact();
+    memory.addTurn(text('q6'), text('a6'));
+    finish('summary');
+    await compacting;
+
+    const contents = memory.getMessages().map(message => message.content);
+    expect(contents[0]).toBe('Summary of the earlier conversation: summary');
+    expect(contents.slice(-2)).toEqual([text('q6'), text('a6')]);
+  });
+
+  it('drops the oldest messages when summarizing fails', async () => {
+    summarize.mockRejectedValueOnce(new Error('LLM unavailable'));
+    const memory = memoryWithTurns(6);
+
+    await memory.compact();
+
+    const messages = memory.getMessages();
+    expect(messages).toHaveLength(5);
+    expect(messages[0]).toEqual({ role: 'assistant', content: text('a3') });
+  });
+
+  it('discards a summary that finishes after the conversation was cleared', async () => {
+    let finish: (summary: string) => void;
+    summarize.mockReturnValueOnce(new Promise(resolve => finish = resolve));
+    const memory = memoryWithTurns(6);
+
+    const compacting = memory.compact();
+    memory.clear();
+    memory.addTurn(text('q0'), text('a0'));
+    finish('summary');
+    await compacting;
+
+    expect(memory.getMessages().map(message => message.content)).toEqual([text('q0'), text('a0')]);
+  });
+});
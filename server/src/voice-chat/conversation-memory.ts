@@ -0,0 +1,130 @@
+import { Logger } from '@nestjs/common';
+import { ChatMessage } from './providers/ai-provider.interface';
+
+/** Default size of a conversation history, in estimated tokens */
+export const DEFAULT_CONVERSATION_TOKEN_BUDGET = 1500;
+
+// Most recent messages that are never folded into the summary (two question/answer turns)
+const MIN_RECENT_MESSAGES = 4;
+
+/**
+ * Fold older messages into a running summary
+ * @param summary Summary of the conversation so far, empty at first
+ * @param messages Messages to add to it, oldest first
+ */
+export type ConversationSummarizer = (summary: string, messages: ChatMessage[]) => Promise<string>;
+
+export interface ConversationMemoryOptions {
+  /** Estimated tokens the summary and recent messages may take together */
+  tokenBudget?: number;
+  summarize: ConversationSummarizer;
+}
+
+/**
+ * Rough token count of a text, about four characters per token for English text
+ */
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+/**
+ * Conversation history of one voice chat session.
+ * Keeps the latest messages verbatim; once they exceed the token budget, the oldest
+ * ones are folded into a running summary until the history fits in half the budget again.
+ */
+export class ConversationMemory {
+  private readonly logger = new Logger(ConversationMemory.name);
+  private readonly tokenBudget: number;
+  private readonly summarize: ConversationSummarizer;
+  private messages: ChatMessage[] = [];
+  private summary = '';
+  private compacting: Promise<void> | null = null;
+
+  constructor({ tokenBudget = DEFAULT_CONVERSATION_TOKEN_BUDGET, summarize }: ConversationMemoryOptions) {
+    this.tokenBudget = tokenBudget;
+    this.summarize = summarize;
+  }
+
+  /**
+   * Remember a question and its answer
+   * @param question What the user said
+   * @param answer What the assistant replied
+   */
+  addTurn(question: string, answer: string) {
+    this.messages.push({ role: 'user', content: question }, { role: 'assistant', content: answer });
+  }
+
+  /**
+   * The history to send before the next question: the summary of older turns, if any,
+   * followed by the recent messages
+   */
+  getMessages(): ChatMessage[] {
+    const summary: ChatMessage[] = this.summary
+      ? [{ role: 'system', content: `Summary of the earlier conversation: ${this.summary}` }]
+      : [];
+
+    return [...summary, ...this.messages];
+  }
+
+  /**
+   * Estimated tokens of the summary and the recent messages
+   */
+  getTokenCount(): number {
+    return estimateTokens(this.summary) + this.messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+  }
+
+  /**
+   * Summarize older messages when the history is over budget. Calls made while a
+   * summary is being written wait for it instead of starting another.
+   */
+  compact(): Promise<void> {
+    if (!this.compacting && this.getTokenCount() > this.tokenBudget) {
+      this.compacting = this.foldOldestMessages().finally(() => {
+        this.compacting = null;
+      });
+    }
+
+    return this.compacting || Promise.resolve();
+  }
+
+  /**
+   * Forget the conversation
+   */
+  clear() {
+    this.messages = [];
+    this.summary = '';
+  }
+
+  private async foldOldestMessages() {
+    const target = this.tokenBudget / 2;
+    const folded: ChatMessage[] = [];
+    let tokens = this.getTokenCount();
+
+    while (this.messages.length - folded.length > MIN_RECENT_MESSAGES && tokens > target) {
+      const message = this.messages[folded.length];
+      folded.push(message);
+      tokens -= estimateTokens(message.content);
+    }
+
+    if (!folded.length) {
+      return;
+    }
+
+    // clear() swaps the message list; a summary finishing after it is discarded
+    const messages = this.messages;
+    let summary = this.summary;
+    try {
+      summary = (await this.summarize(this.summary, folded)).trim();
+    } catch (error) {
+      // Without a summary the oldest messages are dropped so the history stays bounded
+      this.logger.warn(`Dropping ${folded.length} older messages, summarizing failed: ${error.message}`);
+    }
+
+    if (this.messages !== messages) {
+      return;
+    }
+
+    // Turns added while the summary was written are kept
+    this.summary = summary;
+    this.messages = this.messages.slice(folded.length);
+    this.logger.log(`Folded ${folded.length} older messages into the summary (~${this.getTokenCount()} tokens of history left)`);
+  }
+}
@@ -0,0 +1,88 @@
+import { Injectable, Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AIProviderName,
+  LLM_PROVIDER,
+  LLMProvider,
+  STT_PROVIDER,
+  STTProvider,
+  TTS_PROVIDER,
+  TTSProvider,
+} from './ai-provider.interface';
+import { OpenAIProvider } from './openai.provider';
+import { MockAIProvider } from './mock.provider';
+
+type AIProviderInstance = LLMProvider & STTProvider & TTSProvider;
+
+const SUPPORTED_PROVIDERS: AIProviderName[] = ['openai', 'mock'];
+
+/**
+ * Resolves the configured provider for each AI capability.
+ *
+ * `AI_PROVIDER` sets the default for all capabilities, while
+ * `LLM_PROVIDER`, `STT_PROVIDER` and `TTS_PROVIDER` override it individually.
+ * Instances are shared so a single OpenAI client serves every capability.
+ */
+@Injectable()
+export class AIProviderFactory {
+  private readonly logger = new Logger(AIProviderFactory.name);
+  private readonly instances = new Map<AIProviderName, AIProviderInstance>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Get the provider configured for a capability
+   * @param capabilityKey Config key of the capability override
+   */
+  forCapability(capabilityKey: string): AIProviderInstance {
+    const configured = this.configService.get<string>(capabilityKey)
+      || this.configService.get<string>('AI_PROVIDER')
+      || 'openai';
+    const name = configured.toLowerCase() as AIProviderName;
+
+    if (!SUPPORTED_PROVIDERS.includes(name)) {
+      throw new Error(`Unsupported AI provider "${configured}" for ${capabilityKey}. Expected one of: ${SUPPORTED_PROVIDERS.join(', ')}`);
+    }
+
+    this.logger.log(`Using ${name} provider for ${capabilityKey}`);
+    return this.getInstance(name);
+  }
+
+  private getInstance(name: AIProviderName): AIProviderInstance {
+    if (!this.instances.has(name)) {
+      this.instances.set(name, this.createInstance(name));
+    }
+    return this.instances.get(name);
+  }
+
+  private createInstance(name: AIProviderName): AIProviderInstance {
+    switch (name) {
+      case 'mock':
+        return new MockAIProvider({
+          transcription: this.configService.get<string>('MOCK_TRANSCRIPTION'),
+        });
+      case 'openai':
+      default:
+        return new OpenAIProvider(this.configService.get<string>('OPENAI_API_KEY'));
+    }
+  }
+}
+
+export const aiProviders: Provider[] = [
+  AIProviderFactory,
+  {
+    provide: LLM_PROVIDER,
+    inject: [AIProviderFactory],
+    useFactory: (factory: AIProviderFactory): LLMProvider => factory.forCapability(LLM_PROVIDER),
+  },
+  {
+    provide: STT_PROVIDER,
+    inject: [AIProviderFactory],
+    useFactory: (factory: AIProviderFactory): STTProvider => factory.forCapability(STT_PROVIDER),
+  },
+  {
+    provide: TTS_PROVIDER,
+    inject: [AIProviderFactory],
+    useFactory: (factory: AIProviderFactory): TTSProvider => factory.forCapability(TTS_PROVIDER),
+  },
+];
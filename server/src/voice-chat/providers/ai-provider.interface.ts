@@ -0,0 +1,54 @@
+/**
+ * Provider interfaces for the AI backends used by the voice chat pipeline.
+ * Each capability (chat, speech-to-text, text-to-speech) is resolved
+ * independently from configuration so they can be mixed, e.g. a mock LLM
+ * with real TTS.
+ */
+
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+export const STT_PROVIDER = 'STT_PROVIDER';
+export const TTS_PROVIDER = 'TTS_PROVIDER';
+
+export type AIProviderName = 'openai' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: AIProviderName;
+  generateChat(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<string>;
+  /** Same as generateChat, yielding the reply in pieces as they are generated */
+  streamChat(messages: ChatMessage[], options?: ChatCompletionOptions): AsyncIterable<string>;
+}
+
+export interface TranscriptionOptions {
+  mimeType?: string;
+  /** ISO-639-1 language of the audio, e.g. `pt` */
+  language?: string;
+}
+
+export interface STTProvider {
+  readonly name: AIProviderName;
+  transcribe(audio: Buffer, options?: TranscriptionOptions): Promise<string>;
+}
+
+export interface SpeechOptions {
+  voice?: string;
+  /** Speaking rate, 1 for normal speed; providers without one ignore it */
+  speed?: number;
+}
+
+export interface TTSProvider {
+  readonly name: AIProviderName;
+  /** MIME type of the audio `synthesize` returns, e.g. `audio/mpeg` */
+  readonly audioMimeType: string;
+  synthesize(text: string, options?: SpeechOptions): Promise<Buffer>;
+}
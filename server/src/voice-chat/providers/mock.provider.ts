@@ -0,0 +1,90 @@
+import { Logger } from '@nestjs/common';
+import * as WaveFile from 'wavefile';
+import {
+  ChatCompletionOptions,
+  ChatMessage,
+  LLMProvider,
+  SpeechOptions,
+  STTProvider,
+  TranscriptionOptions,
+  TTSProvider,
+} from './ai-provider.interface';
+
+export interface MockProviderOptions {
+  transcription?: string;
+}
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_MS_PER_WORD = 120;
+const MOCK_MAX_DURATION_MS = 15000;
+const MOCK_STREAM_DELAY_MS = 30;
+
+/**
+ * Offline stand-in for every AI capability. Responses are derived only from
+ * the input so the same request always produces the same output:
+ * - chat replies with the leading sentences of the latest user message, streamed word by word
+ * - transcription returns a fixed phrase
+ * - speech is a WAV tone whose length follows the word count
+ */
+export class MockAIProvider implements LLMProvider, STTProvider, TTSProvider {
+  readonly name = 'mock' as const;
+  readonly audioMimeType = 'audio/wav';
+  private readonly logger = new Logger(MockAIProvider.name);
+  private readonly transcription: string;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.transcription = options.transcription || 'This is a mock transcription.';
+    this.logger.log('Mock AI provider initialized, no external API calls will be made');
+  }
+
+  async generateChat(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<string> {
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+    const input = lastUserMessage?.content?.trim() || '';
+
+    if (!input) {
+      return 'This is a mock response.';
+    }
+
+    const sentences = input.match(/[^.!?]+[.!?]*/g) || [input];
+    let response = sentences.slice(0, 3).join('').trim();
+
+    // Roughly honor the token budget (about four characters per token)
+    if (options.maxTokens && response.length > options.maxTokens * 4) {
+      response = response.substring(0, options.maxTokens * 4).trim();
+    }
+
+    return response;
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncIterable<string> {
+    const response = await this.generateChat(messages, options);
+
+    for (const word of response.match(/\S+\s*/g) || []) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      yield word;
+    }
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<string> {
+    this.logger.debug(`Mock transcription of ${audio.length} bytes (${options.mimeType || 'audio/webm'}${options.language ? `, ${options.language}` : ''})`);
+    return this.transcription;
+  }
+
+  async synthesize(text: string, options: SpeechOptions = {}): Promise<Buffer> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const durationMs = Math.min(Math.max(words, 1) * MOCK_MS_PER_WORD / (options.speed || 1), MOCK_MAX_DURATION_MS);
+    const sampleCount = Math.round((MOCK_SAMPLE_RATE * durationMs) / 1000);
+
+    // A quiet 440Hz tone keeps playback audible without being intrusive
+    const samples = new Int16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+      samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / MOCK_SAMPLE_RATE) * 3000);
+    }
+
+    const wav = new WaveFile.WaveFile();
+    wav.fromScratch(1, MOCK_SAMPLE_RATE, '16', samples);
+
+    this.logger.debug(`Mock speech for voice ${options.voice || 'alloy'}${options.speed ? ` at ${options.speed}x` : ''}: ${Math.round(durationMs)}ms`);
+    return Buffer.from(wav.toBuffer());
+  }
+}
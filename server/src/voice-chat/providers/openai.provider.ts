@@ -0,0 +1,148 @@
+import { Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import * as ffmpeg from 'fluent-ffmpeg';
+import {
+  ChatCompletionOptions,
+  ChatMessage,
+  LLMProvider,
+  SpeechOptions,
+  STTProvider,
+  TranscriptionOptions,
+  TTSProvider,
+} from './ai-provider.interface';
+
+/**
+ * OpenAI implementation of the chat, Whisper and TTS providers
+ */
+export class OpenAIProvider implements LLMProvider, STTProvider, TTSProvider {
+  readonly name = 'openai' as const;
+  readonly audioMimeType = 'audio/mpeg';
+  private readonly openai: OpenAI;
+  private readonly logger = new Logger(OpenAIProvider.name);
+
+  constructor(apiKey: string) {
+    if (!apiKey) {
+      this.logger.error('OPENAI_API_KEY is not defined in the environment');
+      throw new Error('OPENAI_API_KEY is required');
+    }
+
+    this.openai = new OpenAI({
+      apiKey,
+    });
+
+    // Configure ffmpeg with the installer path
+    ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+    this.logger.log(`FFmpeg path set to: ${ffmpegInstaller.path}`);
+  }
+
+  async generateChat(messages: ChatMessage[], options: ChatCompletionOptions = {}): Promise<string> {
+    const response = await this.openai.chat.completions.create({
+      model: options.model || 'gpt-4o',
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatCompletionOptions = {}): AsyncIterable<string> {
+    const stream = await this.openai.chat.completions.create({
+      model: options.model || 'gpt-4o',
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async synthesize(text: string, options: SpeechOptions = {}): Promise<Buffer> {
+    const mp3 = await this.openai.audio.speech.create({
+      model: 'tts-1',
+      voice: (options.voice || 'alloy') as any,
+      input: text,
+      speed: options.speed,
+    });
+
+    return Buffer.from(await mp3.arrayBuffer());
+  }
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<string> {
+    const mimeType = options.mimeType || 'audio/webm';
+
+    // Determine file extension
+    let fileExtension = '.webm';
+    if (mimeType.includes('mp3')) fileExtension = '.mp3';
+    else if (mimeType.includes('wav')) fileExtension = '.wav';
+    else if (mimeType.includes('ogg')) fileExtension = '.ogg';
+
+    // Create temporary files
+    const tempDir = os.tmpdir();
+    const originalFilePath = path.join(tempDir, `audio-original-${Date.now()}${fileExtension}`);
+    const wavFilePath = path.join(tempDir, `audio-converted-${Date.now()}.wav`);
+
+    this.logger.log(`Writing audio buffer to temporary file: ${originalFilePath}`);
+    fs.writeFileSync(originalFilePath, audio);
+
+    try {
+      // Convert to WAV for Whisper API
+      await this.convertToWav(originalFilePath, wavFilePath);
+
+      const whisperResponse = await this.openai.audio.transcriptions.create({
+        file: fs.createReadStream(wavFilePath),
+        model: 'whisper-1',
+        ...(options.language ? { language: options.language } : {}),
+      });
+
+      return whisperResponse.text;
+    } finally {
+      this.cleanupFiles([originalFilePath, wavFilePath]);
+    }
+  }
+
+  // Convert audio file to WAV format
+  private async convertToWav(inputPath: string, outputPath: string): Promise<void> {
+    this.logger.log(`Converting audio file to WAV format: ${inputPath} -> ${outputPath}`);
+
+    return new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .inputOption('-y')
+        .audioFrequency(16000)
+        .audioChannels(1)
+        .format('wav')
+        .on('error', (err) => {
+          this.logger.error('Error during ffmpeg conversion:', err);
+          reject(err);
+        })
+        .on('end', () => {
+          this.logger.log('Audio conversion successful');
+          resolve();
+        })
+        .save(outputPath);
+    });
+  }
+
+  // Clean up temporary files
+  private cleanupFiles(filePaths: string[]): void {
+    for (const filePath of filePaths) {
+      if (!fs.existsSync(filePath)) continue;
+      try {
+        fs.unlinkSync(filePath);
+      } catch (error) {
+        this.logger.error(`Error deleting temporary file ${filePath}:`, error);
+      }
+    }
+    this.logger.verbose('Temporary audio files deleted');
+  }
+}
@@ -0,0 +1,26 @@
+import { MAX_SPEECH_SPEED, MIN_SPEECH_SPEED, toSpeechSpeed } from './speech-speed';
+
+describe('toSpeechSpeed', () => {
+  it('accepts speeds within the supported range', () => {
+    expect(toSpeechSpeed(MIN_SPEECH_SPEED)).toBe(0.75);
+    expect(toSpeechSpeed(1.5)).toBe(1.5);
+    expect(toSpeechSpeed(MAX_SPEECH_SPEED)).toBe(2);
+  });
+
+  it('accepts numeric strings', () => {
+    expect(toSpeechSpeed('1.25')).toBe(1.25);
+  });
+
+  it('returns undefined for normal speed, so providers use their default', () => {
+    expect(toSpeechSpeed(1)).toBeUndefined();
+  });
+
+  it('returns undefined for missing, invalid and out of range speeds', () => {
+    expect(toSpeechSpeed(undefined)).toBeUndefined();
+    expect(toSpeechSpeed(null)).toBeUndefined();
+    expect(toSpeechSpeed('fast')).toBeUndefined();
+    expect(toSpeechSpeed(0.5)).toBeUndefined();
+    expect(toSpeechSpeed(2.5)).toBeUndefined();
+    expect(toSpeechSpeed(NaN)).toBeUndefined();
+  });
+});
@@ -0,0 +1,12 @@
+/** Playback speeds the client offers */
+export const MIN_SPEECH_SPEED = 0.75;
+export const MAX_SPEECH_SPEED = 2;
+
+/**
+ * Read a speaking rate sent by a client
+ * @returns undefined for normal speed or a value outside the offered range
+ */
+export const toSpeechSpeed = (value: unknown): number | undefined => {
+  const speed = Number(value);
+  return speed >= MIN_SPEECH_SPEED && speed <= MAX_SPEECH_SPEED && speed !== 1 ? speed : undefined;
+};
@@ -0,0 +1,31 @@
+import * as dotenv from 'dotenv';
+import { RealtimeMockServer } from './realtime-mock.server';
+
+dotenv.config();
+
+/**
+ * Standalone entry point for the realtime mock server.
+ * Point the API at it with OPENAI_REALTIME_URL=ws://127.0.0.1:8089/v1/realtime
+ */
+async function bootstrap() {
+  const replies = process.env.REALTIME_MOCK_REPLIES
+    ? process.env.REALTIME_MOCK_REPLIES.split('|').map(reply => reply.trim()).filter(Boolean)
+    : undefined;
+
+  const server = new RealtimeMockServer({
+    port: parseInt(process.env.REALTIME_MOCK_PORT || '8089', 10),
+    host: process.env.REALTIME_MOCK_HOST || '127.0.0.1',
+    replies,
+    deltaIntervalMs: parseInt(process.env.REALTIME_MOCK_DELTA_INTERVAL_MS || '20', 10),
+  });
+
+  const url = await server.start();
+  console.log(`Realtime mock server is running on: ${url}`);
+
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+bootstrap();
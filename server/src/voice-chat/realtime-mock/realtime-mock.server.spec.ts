@@ -0,0 +1,74 @@
+import { WebSocket } from 'ws';
+import { RealtimeMockServer } from './realtime-mock.server';
+
+const REPLY = 'One two three four five six seven eight nine ten.';
+
+describe('RealtimeMockServer', () => {
+  let server: RealtimeMockServer;
+  let ws: WebSocket;
+  let events: any[];
+
+  // Resolves with the first event of the type, received or still to come
+  const nextEvent = (type: string, from = 0): Promise<any> => new Promise(resolve => {
+    const check = () => {
+      const event = events.slice(from).find(entry => entry.type === type);
+      if (!event) return false;
+      ws.off('message', check);
+      resolve(event);
+      return true;
+    };
+    if (!check()) ws.on('message', check);
+  });
+
+  const send = (event: Record<string, any>) => ws.send(JSON.stringify(event));
+
+  beforeEach(async () => {
+    server = new RealtimeMockServer({ port: 0, replies: [REPLY], msPerWord: 100 });
+    ws = new WebSocket(await server.start());
+    events = [];
+    ws.on('message', data => events.push(JSON.parse(data.toString())));
+    await nextEvent('session.created');
+  });
+
+  afterEach(async () => {
+    ws.close();
+    await server.stop();
+  });
+
+  it('streams a whole reply when nothing cancels it', async () => {
+    send({ type: 'session.update', session: { modalities: ['text'] } });
+    send({ type: 'response.create' });
+
+    const done = await nextEvent('response.done');
+
+    expect(done.response.status).toBe('completed');
+    expect(events.filter(event => event.type === 'response.text.delta').map(event => event.delta).join('')).toBe(REPLY);
+  });
+
+  it.each([
+    ['text', 'text'],
+    ['audio', 'transcript'],
+  ])('ends a cancelled %s response with what was said so far', async (modality, field) => {
+    send({ type: 'session.update', session: { modalities: modality === 'text' ? ['text'] : ['text', 'audio'] } });
+    send({ type: 'response.create' });
+
+    await nextEvent(modality === 'text' ? 'response.text.delta' : 'response.audio_transcript.delta');
+    send({ type: 'response.cancel' });
+    const done = await nextEvent('response.done');
+
+    const said = done.response.output[0].content[0][field];
+    expect(done.response.status).toBe('cancelled');
+    expect(said.length).toBeGreaterThan(0);
+    expect(said.length).toBeLessThan(REPLY.length);
+    expect(REPLY.startsWith(said)).toBe(true);
+    expect(events.some(event => event.type === 'response.content_part.done')).toBe(false);
+  });
+
+  it('rejects a cancel when no response is streaming', async () => {
+    send({ type: 'response.cancel' });
+
+    const error = await nextEvent('error');
+
+    expect(error.error.code).toBe('response_cancel_not_active');
+  });
+});
@@ -0,0 +1,442 @@
+import { Logger } from '@nestjs/common';
+import { WebSocket, WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface RealtimeMockOptions {
+  port?: number;
+  host?: string;
+  /** Replies used in order for each response, cycling when exhausted */
+  replies?: string[];
+  /** Length of synthetic audio generated per spoken word */
+  msPerWord?: number;
+  /** Delay between streamed deltas, 0 sends them back to back, still reading client events in between */
+  deltaIntervalMs?: number;
+  /** Silence after the last append before server VAD ends the turn */
+  vadSilenceMs?: number;
+}
+
+interface MockConversationItem {
+  id: string;
+  type: string;
+  role?: string;
+  [key: string]: any;
+}
+
+interface MockConnectionState {
+  id: string;
+  session: {
+    id: string;
+    object: string;
+    model: string;
+    modalities: string[];
+    instructions: string;
+    voice: string;
+    input_audio_format: string;
+    output_audio_format: string;
+    turn_detection: { type?: string; [key: string]: any } | null;
+    tools: any[];
+    [key: string]: any;
+  };
+  audioBuffer: Buffer[];
+  speechStarted: boolean;
+  items: MockConversationItem[];
+  replyIndex: number;
+  activeResponseId: string | null;
+  vadTimer?: NodeJS.Timeout;
+}
+
+const SAMPLE_RATE = 24000;
+const SAMPLES_PER_CHUNK = 2400; // 100ms of PCM16 mono audio
+
+const DEFAULT_REPLIES = [
+  'This is a mock realtime response. The local stand-in server received your message.',
+  'Here is another scripted reply from the mock realtime server.',
+];
+
+/**
+ * Local stand-in for the OpenAI Realtime WebSocket API.
+ *
+ * Speaks the same event protocol as `wss://api.openai.com/v1/realtime`
+ * closely enough for WebRTCService and the client to run end to end:
+ * session configuration, input audio buffering (manual commit or a simple
+ * server VAD), conversation items and streamed responses made of scripted
+ * text and synthetic PCM16 audio.
+ */
+export class RealtimeMockServer {
+  private readonly logger = new Logger(RealtimeMockServer.name);
+  private readonly options: Required<RealtimeMockOptions>;
+  private server: WebSocketServer | null = null;
+  private readonly connections = new Map<WebSocket, MockConnectionState>();
+
+  constructor(options: RealtimeMockOptions = {}) {
+    this.options = {
+      port: options.port ?? 8089,
+      host: options.host ?? '127.0.0.1',
+      replies: options.replies?.length ? options.replies : DEFAULT_REPLIES,
+      msPerWord: options.msPerWord ?? 250,
+      deltaIntervalMs: options.deltaIntervalMs ?? 0,
+      vadSilenceMs: options.vadSilenceMs ?? 500,
+    };
+  }
+
+  /**
+   * Start listening and resolve with the URL to use as OPENAI_REALTIME_URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = new WebSocketServer({ port: this.options.port, host: this.options.host });
+      this.server.once('listening', () => resolve());
+      this.server.once('error', reject);
+      this.server.on('connection', (ws) => this.handleConnection(ws));
+    });
+
+    // Pick up the actual port when an ephemeral port (0) was requested
+    const address = this.server.address();
+    if (typeof address === 'object' && address) {
+      this.options.port = address.port;
+    }
+
+    this.logger.log(`Realtime mock server listening on ${this.getUrl()}`);
+    return this.getUrl();
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    for (const [ws, state] of this.connections.entries()) {
+      clearTimeout(state.vadTimer);
+      ws.terminate();
+    }
+    this.connections.clear();
+
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.server = null;
+    this.logger.log('Realtime mock server stopped');
+  }
+
+  getUrl(): string {
+    return `ws://${this.options.host}:${this.options.port}/v1/realtime`;
+  }
+
+  private handleConnection(ws: WebSocket) {
+    const state: MockConnectionState = {
+      id: `mock-${uuidv4()}`,
+      session: {
+        id: `sess_${uuidv4()}`,
+        object: 'realtime.session',
+        model: 'mock-realtime',
+        modalities: ['text', 'audio'],
+        instructions: '',
+        voice: 'alloy',
+        input_audio_format: 'pcm16',
+        output_audio_format: 'pcm16',
+        turn_detection: { type: 'server_vad' },
+        tools: [],
+      },
+      audioBuffer: [],
+      speechStarted: false,
+      items: [],
+      replyIndex: 0,
+      activeResponseId: null,
+    };
+
+    this.connections.set(ws, state);
+    this.logger.log(`Mock realtime client connected: ${state.id}`);
+
+    ws.on('message', (data) => {
+      this.handleMessage(ws, state, data.toString()).catch(error => {
+        this.logger.error(`Error handling mock realtime message: ${error.message}`);
+        this.sendError(ws, 'server_error', error.message);
+      });
+    });
+
+    ws.on('close', () => {
+      clearTimeout(state.vadTimer);
+      this.connections.delete(ws);
+      this.logger.log(`Mock realtime client disconnected: ${state.id}`);
+    });
+
+    this.send(ws, { type: 'session.created', session: state.session });
+  }
+
+  private async handleMessage(ws: WebSocket, state: MockConnectionState, raw: string) {
+    let event: any;
+    try {
+      event = JSON.parse(raw);
+    } catch {
+      this.sendError(ws, 'invalid_json', 'Message is not valid JSON');
+      return;
+    }
+
+    switch (event.type) {
+      case 'session.update':
+        state.session = { ...state.session, ...(event.session || {}) };
+        this.send(ws, { type: 'session.updated', session: state.session });
+        break;
+
+      case 'input_audio_buffer.append':
+        this.appendAudio(ws, state, event);
+        break;
+
+      case 'input_audio_buffer.commit':
+        this.commitAudio(ws, state, event);
+        break;
+
+      case 'input_audio_buffer.clear':
+        clearTimeout(state.vadTimer);
+        state.audioBuffer = [];
+        state.speechStarted = false;
+        this.send(ws, { type: 'input_audio_buffer.cleared' });
+        break;
+
+      case 'conversation.item.create':
+        this.createItem(ws, state, event);
+        break;
+
+      case 'response.create':
+        await this.createResponse(ws, state);
+        break;
+
+      case 'response.cancel':
+        // The streaming response notices and ends itself with a cancelled response.done
+        if (!state.activeResponseId) {
+          this.sendError(ws, 'response_cancel_not_active', 'There is no active response to cancel', event.event_id);
+          break;
+        }
+        state.activeResponseId = null;
+        break;
+
+      default:
+        this.sendError(ws, 'unknown_event', `Unsupported event type: ${event.type}`, event.event_id);
+        break;
+    }
+  }
+
+  private appendAudio(ws: WebSocket, state: MockConnectionState, event: any) {
+    if (typeof event.audio !== 'string' || !event.audio.length) {
+      this.sendError(ws, 'invalid_value', 'input_audio_buffer.append requires base64 audio', event.event_id);
+      return;
+    }
+
+    state.audioBuffer.push(Buffer.from(event.audio, 'base64'));
+
+    if (state.session.turn_detection?.type !== 'server_vad') {
+      return;
+    }
+
+    // Simulate server VAD: speech starts with the first chunk and ends after a pause
+    if (!state.speechStarted) {
+      state.speechStarted = true;
+      this.send(ws, { type: 'input_audio_buffer.speech_started', audio_start_ms: 0, item_id: null });
+    }
+
+    clearTimeout(state.vadTimer);
+    state.vadTimer = setTimeout(() => {
+      this.send(ws, { type: 'input_audio_buffer.speech_stopped', audio_end_ms: this.bufferedMs(state) });
+      this.commitAudio(ws, state, {});
+      this.createResponse(ws, state).catch(error => {
+        this.logger.error(`Error creating mock VAD response: ${error.message}`);
+      });
+    }, this.options.vadSilenceMs);
+  }
+
+  private commitAudio(ws: WebSocket, state: MockConnectionState, event: any) {
+    clearTimeout(state.vadTimer);
+
+    const audio = Buffer.concat(state.audioBuffer);
+    if (!audio.length) {
+      this.sendError(ws, 'input_audio_buffer_commit_empty', 'Error committing input audio buffer: buffer is empty', event.event_id);
+      return;
+    }
+
+    const previousItemId = state.items[state.items.length - 1]?.id ?? null;
+    const item: MockConversationItem = {
+      id: `item_${uuidv4()}`,
+      object: 'realtime.item',
+      type: 'message',
+      role: 'user',
+      status: 'completed',
+      content: [{ type: 'input_audio', transcript: null }],
+    };
+
+    state.items.push(item);
+    state.audioBuffer = [];
+    state.speechStarted = false;
+
+    this.send(ws, { type: 'input_audio_buffer.committed', previous_item_id: previousItemId, item_id: item.id });
+    this.send(ws, { type: 'conversation.item.created', previous_item_id: previousItemId, item });
+  }
+
+  private createItem(ws: WebSocket, state: MockConnectionState, event: any) {
+    if (!event.item || !event.item.type) {
+      this.sendError(ws, 'invalid_value', 'conversation.item.create requires an item with a type', event.event_id);
+      return;
+    }
+
+    const previousItemId = event.previous_item_id ?? state.items[state.items.length - 1]?.id ?? null;
+    const item: MockConversationItem = {
+      id: event.item.id || `item_${uuidv4()}`,
+      object: 'realtime.item',
+      status: 'completed',
+      ...event.item,
+    };
+
+    state.items.push(item);
+    this.send(ws, { type: 'conversation.item.created', previous_item_id: previousItemId, item });
+  }
+
+  private async createResponse(ws: WebSocket, state: MockConnectionState) {
+    const responseId = `resp_${uuidv4()}`;
+    const itemId = `item_${uuidv4()}`;
+    const reply = this.options.replies[state.replyIndex % this.options.replies.length];
+    const withAudio = state.session.modalities.includes('audio');
+    state.replyIndex++;
+    state.activeResponseId = responseId;
+
+    const item: MockConversationItem = {
+      id: itemId,
+      object: 'realtime.item',
+      type: 'message',
+      role: 'assistant',
+      status: 'in_progress',
+      content: [],
+    };
+    const part = withAudio ? { type: 'audio', transcript: '' } : { type: 'text', text: '' };
+    const position = { response_id: responseId, item_id: itemId, output_index: 0, content_index: 0 };
+
+    this.send(ws, { type: 'response.created', response: { id: responseId, object: 'realtime.response', status: 'in_progress', output: [] } });
+    this.send(ws, { type: 'response.output_item.added', response_id: responseId, output_index: 0, item });
+    this.send(ws, { type: 'response.content_part.added', ...position, part });
+
+    const words = reply.split(/(?<=\s)/);
+    let said = '';
+    const cancel = () => this.sendCancelled(ws, responseId, item, withAudio ? { type: 'audio', transcript: said } : { type: 'text', text: said });
+    for (const word of words) {
+      if (!this.isResponseActive(ws, state, responseId)) return cancel();
+
+      said += word;
+      if (withAudio) {
+        this.send(ws, { type: 'response.audio_transcript.delta', ...position, delta: word });
+        for (const chunk of this.synthesizeWord()) {
+          if (!this.isResponseActive(ws, state, responseId)) return cancel();
+          this.send(ws, { type: 'response.audio.delta', ...position, delta: chunk });
+          await this.pause();
+        }
+      } else {
+        this.send(ws, { type: 'response.text.delta', ...position, delta: word });
+        await this.pause();
+      }
+    }
+
+    if (withAudio) {
+      this.send(ws, { type: 'response.audio.done', ...position });
+      this.send(ws, { type: 'response.audio_transcript.done', ...position, transcript: reply });
+    } else {
+      this.send(ws, { type: 'response.text.done', ...position, text: reply });
+    }
+
+    const completedPart = withAudio ? { type: 'audio', transcript: reply } : { type: 'text', text: reply };
+    const completedItem = { ...item, status: 'completed', content: [completedPart] };
+    state.items.push(completedItem);
+    state.activeResponseId = null;
+
+    this.send(ws, { type: 'response.content_part.done', ...position, part: completedPart });
+    this.send(ws, { type: 'response.output_item.done', response_id: responseId, output_index: 0, item: completedItem });
+    this.send(ws, {
+      type: 'response.done',
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'completed',
+        output: [completedItem],
+        usage: { total_tokens: 0, input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  /**
+   * End a response cancelled with response.cancel, or replaced by a newer one, the way the
+   * API does: a response.done with status `cancelled` holding what was said so far
+   */
+  private sendCancelled(ws: WebSocket, responseId: string, item: MockConversationItem, part: any) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    this.send(ws, {
+      type: 'response.done',
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'cancelled',
+        status_details: { type: 'cancelled', reason: 'client_cancelled' },
+        output: [{ ...item, status: 'incomplete', content: [part] }],
+        usage: { total_tokens: 0, input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  }
+
+  /**
+   * Generate base64 PCM16 chunks of a soft tone for one spoken word
+   */
+  private synthesizeWord(): string[] {
+    const totalSamples = Math.round((SAMPLE_RATE * this.options.msPerWord) / 1000);
+    const chunks: string[] = [];
+
+    for (let offset = 0; offset < totalSamples; offset += SAMPLES_PER_CHUNK) {
+      const length = Math.min(SAMPLES_PER_CHUNK, totalSamples - offset);
+      const buffer = Buffer.alloc(length * 2);
+      for (let i = 0; i < length; i++) {
+        const sample = Math.sin((2 * Math.PI * 220 * (offset + i)) / SAMPLE_RATE) * 2000;
+        buffer.writeInt16LE(Math.round(sample), i * 2);
+      }
+      chunks.push(buffer.toString('base64'));
+    }
+
+    return chunks;
+  }
+
+  private bufferedMs(state: MockConnectionState): number {
+    const bytes = state.audioBuffer.reduce((total, chunk) => total + chunk.length, 0);
+    return Math.round((bytes / 2 / SAMPLE_RATE) * 1000);
+  }
+
+  private isResponseActive(ws: WebSocket, state: MockConnectionState, responseId: string): boolean {
+    return ws.readyState === WebSocket.OPEN && state.activeResponseId === responseId;
+  }
+
+  // Always waits for the event loop, so a response.cancel can arrive between two deltas
+  private pause(): Promise<void> {
+    if (!this.options.deltaIntervalMs) {
+      return new Promise(resolve => setImmediate(resolve));
+    }
+    return new Promise(resolve => setTimeout(resolve, this.options.deltaIntervalMs));
+  }
+
+  private sendError(ws: WebSocket, code: string, message: string, eventId?: string) {
+    this.send(ws, {
+      type: 'error',
+      error: {
+        type: 'invalid_request_error',
+        code,
+        message,
+        param: null,
+        event_id: eventId ?? null,
+      },
+    });
+  }
+
+  private send(ws: WebSocket, event: Record<string, any>) {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    ws.send(JSON.stringify({ event_id: `event_${uuidv4()}`, ...event }));
+  }
+}
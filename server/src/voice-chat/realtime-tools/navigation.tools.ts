@@ -0,0 +1,62 @@
+import { ReportsService } from '../../reports/reports.service';
+import { RealtimeTool } from './realtime-tool.interface';
+
+/** Client event asking the PDF viewer to show a page */
+export const NAVIGATE_TO_PAGE_EVENT = 'navigate-to-page';
+
+export interface PageNavigationEvent {
+  sessionId: string;
+  pageNumber: number;
+  pageCode: string;
+  pageTitle: string;
+}
+
+/**
+ * Tools that drive the client's PDF viewer from the conversation
+ * @param reportsService Report access
+ */
+export const createNavigationTools = (reportsService: ReportsService): RealtimeTool[] => [
+  {
+    definition: {
+      type: 'function',
+      name: 'navigate_to_page',
+      description: 'Show a page of the participant\'s report in the PDF viewer. Use it when the user asks to go to, open or see a page or topic, e.g. "take me to my drivers page".',
+      parameters: {
+        type: 'object',
+        properties: {
+          page: {
+            type: 'string',
+            description: 'The page the user asked for: its title, code, section or number, e.g. "Drivers".',
+          },
+        },
+        required: ['page'],
+      },
+    },
+    execute: ({ page }, { sessionId, reportKey, emitToClient }) => {
+      const target = reportsService.findPage(reportKey, String(page ?? ''));
+
+      if (!target) {
+        return {
+          error: `No page matches "${page}"`,
+          pages: reportsService.getReport(reportKey).pages
+            .map(entry => ({ pageNumber: Number(entry.page), pageTitle: entry.pageTitle })),
+        };
+      }
+
+      const event: PageNavigationEvent = {
+        sessionId,
+        pageNumber: Number(target.page),
+        pageCode: target.pageCode,
+        pageTitle: target.pageTitle,
+      };
+      emitToClient(NAVIGATE_TO_PAGE_EVENT, event);
+
+      return {
+        navigated: true,
+        pageNumber: event.pageNumber,
+        pageTitle: event.pageTitle,
+        instructions: 'The page is now shown. Briefly tell the user which page you opened.',
+      };
+    },
+  },
+];
@@ -0,0 +1,39 @@
+/**
+ * Function tools the realtime model can call during a conversation.
+ * Definitions are advertised in `session.update`; when the model calls one,
+ * WebRTCService runs it and returns the result as a `function_call_output` item.
+ */
+
+/** Function definition in the shape the realtime API expects in `session.tools` */
+export interface RealtimeToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  /** JSON schema of the arguments */
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+/** What a tool knows about the session that called it */
+export interface RealtimeToolContext {
+  sessionId: string;
+  /** Report the session is bound to, the default report when omitted */
+  reportKey?: string;
+  /** Session language, the report's language when omitted */
+  language?: string;
+  /** Send an event to the session's client socket */
+  emitToClient: (event: string, data: any) => void;
+}
+
+export interface RealtimeTool {
+  readonly definition: RealtimeToolDefinition;
+  /**
+   * Run the tool
+   * @param args Parsed call arguments
+   * @returns Any JSON-serializable result, passed back to the model
+   */
+  execute(args: Record<string, any>, context: RealtimeToolContext): Promise<any> | any;
+}
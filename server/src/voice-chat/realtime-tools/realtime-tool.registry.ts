@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ReportsService } from '../../reports/reports.service';
+import { ContentLibraryService } from '../../content/content-library.service';
+import { ReportRetrievalService } from '../../retrieval/report-retrieval.service';
+import { RealtimeTool, RealtimeToolContext, RealtimeToolDefinition } from './realtime-tool.interface';
+import { createNavigationTools } from './navigation.tools';
+import { createReportTools } from './report.tools';
+import { createRetrievalTools } from './retrieval.tools';
+
+/**
+ * Tools offered to the realtime model. Results and failures are both returned
+ * to the model as JSON, so a bad call gets a spoken explanation instead of silence.
+ */
+@Injectable()
+export class RealtimeToolRegistry {
+  private readonly logger = new Logger(RealtimeToolRegistry.name);
+  private readonly tools = new Map<string, RealtimeTool>();
+
+  constructor(reportsService: ReportsService, contentLibrary: ContentLibraryService, reportRetrieval: ReportRetrievalService) {
+    [
+      ...createReportTools(reportsService, contentLibrary),
+      ...createRetrievalTools(reportRetrieval),
+      ...createNavigationTools(reportsService),
+    ]
+      .forEach(tool => this.register(tool));
+  }
+
+  /**
+   * Add a tool, replacing any tool with the same name
+   * @param tool The tool to offer to the model
+   */
+  register(tool: RealtimeTool): void {
+    this.tools.set(tool.definition.name, tool);
+    this.logger.log(`Registered realtime tool ${tool.definition.name}`);
+  }
+
+  /**
+   * Tool definitions for `session.update`
+   */
+  getDefinitions(): RealtimeToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Run a tool called by the model
+   * @param name Function name from the `function_call` item
+   * @param rawArguments JSON encoded arguments from the `function_call` item
+   * @param context The calling session
+   * @returns The JSON encoded output for the `function_call_output` item
+   */
+  async execute(name: string, rawArguments: string, context: RealtimeToolContext): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      this.logger.warn(`Model called unknown tool ${name} in session ${context.sessionId}`);
+      return JSON.stringify({ error: `Unknown tool: ${name}` });
+    }
+
+    try {
+      const args = rawArguments ? JSON.parse(rawArguments) : {};
+      this.logger.log(`Running tool ${name} for session ${context.sessionId} with ${JSON.stringify(args)}`);
+
+      const result = await tool.execute(args, context);
+      return JSON.stringify(result ?? {});
+    } catch (error) {
+      this.logger.error(`Tool ${name} failed for session ${context.sessionId}: ${error.message}`);
+      return JSON.stringify({ error: error.message || 'Tool failed' });
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { ReportsService } from '../../reports/reports.service';
+import { ScoreItem } from '../../reports/report.types';
+import { ContentLibraryService } from '../../content/content-library.service';
+import { RealtimeTool, RealtimeToolContext } from './realtime-tool.interface';
+
+/** Score categories a single score can be looked up in */
+const SCORE_CATEGORIES = ['traits', 'drivers', 'competencies'];
+
+/**
+ * Tools that look up facts in the report bound to the session
+ * @param reportsService Report access
+ * @param contentLibrary Authored interpretation sentences of scores
+ */
+export const createReportTools = (reportsService: ReportsService, contentLibrary: ContentLibraryService): RealtimeTool[] => {
+  const describeScore = (category: string, item: ScoreItem, { reportKey, language }: RealtimeToolContext) => {
+    const report = reportsService.getReport(reportKey);
+    const interpretation = contentLibrary.getFanSentences(item, {
+      namespace: report.header.defaultNamespace,
+      language: language || report.language,
+    });
+
+    return {
+      category,
+      key: item.key,
+      name: item.name,
+      level: item.level,
+      levelLabel: item.levelLabel,
+      score: item.score,
+      successScore: item.successScore,
+      successLevel: item.successLevel,
+      description: item.description,
+      interpretation: interpretation.length ? interpretation : undefined,
+    };
+  };
+
+  return [
+    {
+      definition: {
+        type: 'function',
+        name: 'get_page_content',
+        description: 'Get the title and text of a page of the participant\'s report, step by step.',
+        parameters: {
+          type: 'object',
+          properties: {
+            page_number: {
+              type: 'integer',
+              description: 'Page number as shown in the PDF viewer.',
+            },
+          },
+          required: ['page_number'],
+        },
+      },
+      execute: ({ page_number }, { reportKey }) => {
+        const page = reportsService.getPage(reportKey, Number(page_number));
+        const section = reportsService.getReport(reportKey).sections
+          .find(entry => entry.sectionKey === page.sectionKey);
+
+        return {
+          page: Number(page.page),
+          pageCode: page.pageCode,
+          pageTitle: page.pageTitle,
+          section: section?.sectionTitle || null,
+          steps: reportsService.getPageSteps(reportKey, Number(page_number))
+            .map(step => ({ title: step.title, content: step.content })),
+        };
+      },
+    },
+    {
+      definition: {
+        type: 'function',
+        name: 'get_score',
+        description: 'Get the participant\'s result for a single trait, driver or competency: level, score, success profile target, description and the report\'s interpretation sentences.',
+        parameters: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name or key of the trait, driver or competency, e.g. "Focus".',
+            },
+            category: {
+              type: 'string',
+              enum: SCORE_CATEGORIES,
+              description: 'Category to search; all categories when omitted.',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      execute: ({ name, category }, context) => {
+        const { reportKey } = context;
+        const wanted = String(name || '').trim().toLowerCase();
+        const categories = category ? [category] : SCORE_CATEGORIES;
+
+        for (const entry of categories) {
+          const item = reportsService.getScores(reportKey, entry)
+            .find(score => score.key.toLowerCase() === wanted || score.name?.toLowerCase() === wanted);
+          if (item) {
+            return describeScore(entry, item, context);
+          }
+        }
+
+        return {
+          error: `No score named "${name}"`,
+          available: categories.flatMap(entry => reportsService.getScores(reportKey, entry).map(score => score.name)),
+        };
+      },
+    },
+    {
+      definition: {
+        type: 'function',
+        name: 'list_development_areas',
+        description: 'List the competencies the participant should focus on developing.',
+        parameters: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      execute: (_args, context) => {
+        const areas = reportsService.getReport(context.reportKey).scores?.competencyDevelopment || [];
+        return { developmentAreas: areas.map(item => describeScore('competencies', item, context)) };
+      },
+    },
+  ];
+};
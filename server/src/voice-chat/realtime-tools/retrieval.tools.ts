@@ -0,0 +1,38 @@
+import { ReportRetrievalService } from '../../retrieval/report-retrieval.service';
+import { RealtimeTool } from './realtime-tool.interface';
+
+/**
+ * Tools that search the full text of the report, including charts, tables and
+ * pages the narration doesn't cover
+ * @param reportRetrieval Retrieval index of the session's report
+ */
+export const createRetrievalTools = (reportRetrieval: ReportRetrievalService): RealtimeTool[] => [
+  {
+    definition: {
+      type: 'function',
+      name: 'search_report',
+      description: 'Search the full text of the participant\'s report PDF for passages about a topic, with the page each one is on. Use it for questions about charts, tables, rater scores or anything not in the results you were given.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'What to look for, in the words of the report, e.g. "competency cluster scores".',
+          },
+        },
+        required: ['query'],
+      },
+    },
+    execute: async ({ query }, { reportKey }) => {
+      const passages = await reportRetrieval.search(reportKey, String(query ?? ''));
+
+      if (!passages.length) {
+        return { error: `Nothing in the report matches "${query}"` };
+      }
+
+      return {
+        passages: passages.map(({ pageNumber, title, text }) => ({ pageNumber, pageTitle: title, text })),
+      };
+    },
+  },
+];
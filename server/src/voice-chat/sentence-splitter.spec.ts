@@ -0,0 +1,44 @@
+import { SentenceSplitter } from './sentence-splitter';
+
+describe('SentenceSplitter', () => {
+  let splitter: SentenceSplitter;
+
+  beforeEach(() => {
+    splitter = new SentenceSplitter();
+  });
+
+  it('returns a sentence once the text after it starts', () => {
+    expect(splitter.push('Your drivers show what motivates')).toEqual([]);
+    expect(splitter.push(' you at work.')).toEqual([]);
+    expect(splitter.push(' They')).toEqual(['Your drivers show what motivates you at work.']);
+    expect(splitter.flush()).toBe('They');
+  });
+
+  it('splits several sentences from one piece, in order', () => {
+    expect(splitter.push('This is the first sentence! Is this the second sentence? And the rest'))
+      .toEqual(['This is the first sentence!', 'Is this the second sentence?']);
+  });
+
+  it('joins short pieces to the next sentence', () => {
+    expect(splitter.push('Hi. Welcome to your report. Next'))
+      .toEqual(['Hi. Welcome to your report.']);
+  });
+
+  it('keeps closing quotes and brackets with their sentence', () => {
+    expect(splitter.push('She called it "a strong result." (It really was a strong one.) Then'))
+      .toEqual(['She called it "a strong result."', '(It really was a strong one.)']);
+  });
+
+  it('splits on line breaks', () => {
+    expect(splitter.push('First item of the list\n\nSecond item of the list\nThird'))
+      .toEqual(['First item of the list', 'Second item of the list']);
+  });
+
+  it('flushes what is left and then nothing', () => {
+    splitter.push('Short.');
+
+    expect(splitter.flush()).toBe('Short.');
+    expect(splitter.flush()).toBeNull();
+    expect(splitter.push('')).toEqual([]);
+  });
+});
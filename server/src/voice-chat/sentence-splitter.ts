@@ -0,0 +1,46 @@
+// Shorter pieces are joined to the next sentence, so "Hi." or "e.g." aren't spoken on their own
+const MIN_SENTENCE_LENGTH = 20;
+
+// End of a sentence: punctuation, closing quotes or brackets, then whitespace; or a line break
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+/**
+ * Cuts streamed text into sentences as soon as each one is complete, so they can be
+ * spoken while the rest of the answer is still being generated
+ */
+export class SentenceSplitter {
+  private buffer = '';
+
+  /**
+   * Add streamed text
+   * @param delta The next piece of the text
+   * @returns Sentences completed by this piece, in order
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+    const sentences: string[] = [];
+    let start = 0;
+
+    for (const match of this.buffer.matchAll(SENTENCE_BOUNDARY)) {
+      const end = match.index + match[0].length;
+      const sentence = this.buffer.slice(start, end).trim();
+      if (sentence.length >= MIN_SENTENCE_LENGTH) {
+        sentences.push(sentence);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * End of the text
+   * @returns The last sentence, or null when nothing is left
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+}
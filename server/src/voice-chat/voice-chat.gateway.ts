@@ -9,12 +9,20 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { VoiceChatService } from './voice-chat.service';
+import { toSpeechSpeed } from './providers/speech-speed';
+import { ConversationMemory } from './conversation-memory';
+import { ReportsService } from '../reports/reports.service';
+import { ReportLookup } from '../reports/reports.repository';
 import { Injectable, Logger } from '@nestjs/common';
 import * as crypto from 'crypto';
 
 interface VoiceChatSession {
   id: string;
   clientSocket: Socket;
+  reportKey: string;
+  personaId?: string;
+  language?: string;
+  memory: ConversationMemory;
   created: Date;
   lastActivity: Date;
 }
@@ -33,7 +41,10 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
   private readonly logger = new Logger(VoiceChatGateway.name);
   private readonly sessions = new Map<string, VoiceChatSession>();
 
-  constructor(private readonly voiceChatService: VoiceChatService) {
+  constructor(
+    private readonly voiceChatService: VoiceChatService,
+    private readonly reportsService: ReportsService,
+  ) {
     this.logger.log('Voice Chat Gateway initialized');
     
     // Set up session cleanup interval
@@ -80,21 +91,29 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
   }
   
   /**
-   * Start a new voice chat session
+   * Start a new voice chat session bound to a report.
+   * The report is selected by documentKey, liveReportKey and/or participantId,
+   * falling back to the default report when none is given.
    */
   @SubscribeMessage('start-voice-chat')
   async handleStartVoiceChat(
     @ConnectedSocket() client: Socket,
+    @MessageBody() data: ReportLookup & { personaId?: string, language?: string } = {},
   ) {
     try {
       const sessionId = crypto.randomUUID();
+      const reportKey = this.reportsService.resolveReportKey(data || {});
       
-      this.logger.log(`Creating new voice chat session: ${sessionId} for client: ${client.id}`);
+      this.logger.log(`Creating new voice chat session: ${sessionId} for client: ${client.id} (report ${reportKey})`);
       
       // Create the session
       this.sessions.set(sessionId, {
         id: sessionId,
         clientSocket: client,
+        reportKey,
+        personaId: data?.personaId,
+        language: data?.language,
+        memory: this.voiceChatService.createConversationMemory(data?.language),
         created: new Date(),
         lastActivity: new Date()
       });
@@ -102,6 +121,7 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
       // Return session information to client
       return {
         sessionId,
+        reportKey,
         status: 'created',
         timestamp: new Date().toISOString()
       };
@@ -115,11 +135,15 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
   }
   
   /**
-   * Process audio from client
+   * Process audio from client. `pageNumber` and `stepKey` tell which page the user
+   * is looking at and which step is being narrated, so the answer can refer to them.
+   * The answer is spoken sentence by sentence: `voice-chat-transcription` comes first, then
+   * one `voice-chat-response-chunk` per sentence in `index` order, then `voice-chat-response`
+   * with the whole text.
    */
   @SubscribeMessage('process-audio')
   async handleProcessAudio(
-    @MessageBody() data: { sessionId: string, audio: Uint8Array, mimeType?: string },
+    @MessageBody() data: { sessionId: string, audio: Uint8Array, mimeType?: string, pageNumber?: number, stepKey?: string, speed?: number },
     @ConnectedSocket() client: Socket,
   ) {
     try {
@@ -151,22 +175,39 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
       const audioBuffer = Buffer.from(audio);
       
       // Process the audio
-      const transcription = await this.voiceChatService.transcribeAudio(audioBuffer, mimeType);
-      
-      // Generate AI response
-      const aiResponse = await this.voiceChatService.generateAIResponse(transcription);
+      const transcription = await this.voiceChatService.transcribeAudio(audioBuffer, mimeType, session.language);
+      client.emit('voice-chat-transcription', { sessionId, transcription });
       
-      // Convert AI response to speech
-      const speechBuffer = await this.voiceChatService.generateSpeechAudio(aiResponse);
+      // Stream the AI response, with the earlier turns so follow-up questions make sense
+      let chunkCount = 0;
+      const aiResponse = await this.voiceChatService.streamAIResponse(
+        transcription,
+        session.reportKey,
+        session.personaId,
+        session.language,
+        {
+          history: session.memory.getMessages(),
+          page: data.pageNumber !== undefined ? { pageNumber: Number(data.pageNumber), stepKey: data.stepKey } : undefined,
+        },
+        ({ index, text, audio }) => {
+          chunkCount++;
+          client.emit('voice-chat-response-chunk', { sessionId, index, text, audio: audio.toString('base64'), mimeType: this.voiceChatService.speechMimeType });
+        },
+        toSpeechSpeed(data.speed),
+      );
+      session.memory.addTurn(transcription, aiResponse);
       
-      // Send responses back to client
+      // The whole answer, once every chunk was sent
       client.emit('voice-chat-response', {
         sessionId,
         transcription,
         response: aiResponse,
-        audio: speechBuffer.toString('base64')
+        chunkCount,
       });
       
+      // Summarize older turns once the history is over budget, after the answer went out
+      void session.memory.compact();
+      
       return { success: true };
     } catch (error) {
       this.logger.error('Error processing audio:', error);
@@ -205,7 +246,8 @@ export class VoiceChatGateway implements OnGatewayConnection, OnGatewayDisconnec
         throw new Error(`Unauthorized: Client ${client.id} does not own session ${sessionId}`);
       }
       
-      // Remove the session
+      // Forget the conversation and remove the session
+      session.memory.clear();
       this.sessions.delete(sessionId);
       
       return { success: true };
@@ -4,15 +4,25 @@ import { VoiceChatService } from './voice-chat.service';
 import { VoiceChatGateway } from './voice-chat.gateway';
 import { WebRTCGateway } from './webrtc.gateway';
 import { WebRTCService } from './webrtc.service';
+import { aiProviders } from './providers/ai-provider.factory';
+import { RealtimeToolRegistry } from './realtime-tools/realtime-tool.registry';
+import { ReportsModule } from '../reports/reports.module';
+import { PromptsModule } from '../prompts/prompts.module';
+import { PersonasModule } from '../personas/personas.module';
+import { ContentModule } from '../content/content.module';
+import { RetrievalModule } from '../retrieval/retrieval.module';
+import { NarrationCacheModule } from '../narration-cache/narration-cache.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, ReportsModule, PromptsModule, PersonasModule, ContentModule, RetrievalModule, NarrationCacheModule],
   providers: [
     VoiceChatGateway, 
     VoiceChatService,
     WebRTCGateway,
-    WebRTCService
+    WebRTCService,
+    RealtimeToolRegistry,
+    ...aiProviders
   ],
-  exports: [VoiceChatService, WebRTCService]
+  exports: [VoiceChatService, WebRTCService, RealtimeToolRegistry]
 })
 export class VoiceChatModule {} 
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { ConfigService } from '@nestjs/config';
+import { Persona, PersonasService } from '../personas/personas.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { PageContextBuilder } from '../reports/page-context.builder';
+import { ScoreContextBuilder } from '../reports/score-context.builder';
+import { ReportRetrievalService } from '../retrieval/report-retrieval.service';
+import { LLMProvider, STTProvider, TTSProvider } from './providers/ai-provider.interface';
+import { SpokenChunk, VoiceChatService } from './voice-chat.service';
+
+const lin: Persona = {
+  personaId: 'en:lin',
+  name: 'Lin',
+  language: 'en',
+  displayLanguage: 'English',
+  tone: 'Engaging',
+  voice: 'coral',
+  avatar: null,
+};
+
+describe('VoiceChatService.streamAIResponse', () => {
+  let deltas: string[];
+  let stream: () => AsyncIterable<string>;
+  let synthesize: jest.Mock;
+  let service: VoiceChatService;
+
+  // Resolves a synthesis when the test says so, to finish sentences out of order
+  const pendingSpeech = new Map<string, (audio: Buffer) => void>();
+
+  beforeEach(() => {
+    deltas = [];
+    stream = async function* () {
+      yield* deltas;
+    };
+    pendingSpeech.clear();
+    synthesize = jest.fn((text: string) => new Promise<Buffer>(resolve => pendingSpeech.set(text, resolve)));
+
+    const llmProvider: LLMProvider = { name: 'mock', generateChat: jest.fn(), streamChat: () => stream() };
+    const sttProvider: STTProvider = { name: 'mock', transcribe: jest.fn() };
+    const ttsProvider: TTSProvider = { name: 'mock', audioMimeType: 'audio/wav', synthesize };
+    // No report context, so the answer is built from the question alone
+    const scoreContextBuilder: jest.Mocked<Pick<ScoreContextBuilder, 'build'>> = { build: jest.fn().mockReturnValue('') };
+    const pageContextBuilder: jest.Mocked<Pick<PageContextBuilder, 'build'>> = { build: jest.fn().mockReturnValue('') };
+    const reportRetrieval: jest.Mocked<Pick<ReportRetrievalService, 'buildContext'>> = { buildContext: jest.fn().mockResolvedValue('') };
+    const promptsService: jest.Mocked<Pick<PromptsService, 'composeInstructions' | 'detectRefusal'>> = {
+      composeInstructions: jest.fn().mockReturnValue('Instructions'),
+      detectRefusal: jest.fn(),
+    };
+    const personasService: jest.Mocked<Pick<PersonasService, 'resolveLanguage' | 'getPersona' | 'getStyleInstructions'>> = {
+      resolveLanguage: jest.fn().mockReturnValue('en'),
+      getPersona: jest.fn().mockReturnValue(lin),
+      getStyleInstructions: jest.fn().mockReturnValue(''),
+    };
+
+    service = new VoiceChatService(
+      llmProvider,
+      sttProvider,
+      ttsProvider,
+      undefined,
+      scoreContextBuilder as unknown as ScoreContextBuilder,
+      pageContextBuilder as unknown as PageContextBuilder,
+      reportRetrieval as unknown as ReportRetrievalService,
+      promptsService as unknown as PromptsService,
+      personasService as unknown as PersonasService,
+      undefined,
+      new ConfigService({}),
+    );
+  });
+
+  const finishSpeech = async (text: string) => {
+    while (!pendingSpeech.has(text)) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    pendingSpeech.get(text)(Buffer.from(text));
+  };
+
+  it('hands chunks over in sentence order when later sentences are synthesized first', async () => {
+    deltas = ['The first sentence of the answer. ', 'The second sentence of the answer. ', 'The last one'];
+    const chunks: SpokenChunk[] = [];
+
+    const answer = service.streamAIResponse('Question?', undefined, 'en:lin', 'en', {}, chunk => chunks.push(chunk), 1.5);
+    await finishSpeech('The last one');
+    await finishSpeech('The second sentence of the answer.');
+    expect(chunks).toEqual([]);
+    await finishSpeech('The first sentence of the answer.');
+
+    expect(await answer).toBe('The first sentence of the answer. The second sentence of the answer. The last one');
+    expect(chunks.map(({ index, text, audio }) => [index, text, audio.toString()])).toEqual([
+      [0, 'The first sentence of the answer.', 'The first sentence of the answer.'],
+      [1, 'The second sentence of the answer.', 'The second sentence of the answer.'],
+      [2, 'The last one', 'The last one'],
+    ]);
+    expect(synthesize).toHaveBeenCalledWith('The first sentence of the answer.', { voice: 'coral', speed: 1.5 });
+  });
+
+  it('starts synthesizing a sentence before the answer is complete', async () => {
+    let finishStream: () => void;
+    const streamed = new Promise<void>(resolve => finishStream = resolve);
+    stream = async function* () {
+      yield 'The first sentence of the answer. ';
+      yield 'Then';
+      await streamed;
+    };
+
+    const answer = service.streamAIResponse('Question?', undefined, 'en:lin', 'en', {}, () => undefined);
+    await finishSpeech('The first sentence of the answer.');
+    finishStream();
+    await finishSpeech('Then');
+
+    expect(await answer).toBe('The first sentence of the answer. Then');
+  });
+
+  it('speaks an apology when the answer is empty', async () => {
+    const chunks: SpokenChunk[] = [];
+
+    const answer = service.streamAIResponse('Question?', undefined, 'en:lin', 'en', {}, chunk => chunks.push(chunk));
+    await finishSpeech('Sorry, I could not generate a response.');
+
+    expect(await answer).toBe('Sorry, I could not generate a response.');
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('hands over no more chunks after a synthesis fails', async () => {
+    deltas = ['The first sentence of the answer. ', 'The second sentence of the answer.'];
+    synthesize.mockImplementationOnce(() => Promise.reject(new Error('TTS unavailable')));
+    const chunks: SpokenChunk[] = [];
+
+    const answer = expect(service.streamAIResponse('Question?', undefined, 'en:lin', 'en', {}, chunk => chunks.push(chunk)))
+      .rejects.toThrow('TTS unavailable');
+    await finishSpeech('The second sentence of the answer.');
+
+    await answer;
+    expect(chunks).toEqual([]);
+  });
+});
@@ -1,60 +1,101 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import * as ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
-import * as ffmpeg from 'fluent-ffmpeg';
+import {
+  ChatMessage,
+  LLM_PROVIDER,
+  LLMProvider,
+  STT_PROVIDER,
+  STTProvider,
+  TTS_PROVIDER,
+  TTSProvider,
+} from './providers/ai-provider.interface';
+import { ReportsService } from '../reports/reports.service';
+import { ScoreContextBuilder } from '../reports/score-context.builder';
+import { PageContextBuilder, PageReference } from '../reports/page-context.builder';
+import { ReportRetrievalService } from '../retrieval/report-retrieval.service';
+import { PromptsService } from '../prompts/prompts.service';
+import { PersonasService } from '../personas/personas.service';
+import { DEFAULT_PERSONA_VOICE } from '../personas/persona-library';
+import { languageName, sameLanguage, transcriptionLanguage } from '../personas/language-library';
+import { ConversationMemory, DEFAULT_CONVERSATION_TOKEN_BUDGET } from './conversation-memory';
+import { SentenceSplitter } from './sentence-splitter';
+import { contentHash, NarrationCacheService } from '../narration-cache/narration-cache.service';
+
+/** Stages reported while a page summary is produced */
+export type PageSummaryStage = 'loading' | 'summarizing' | 'synthesizing';
+
+/** What an answer can take into account besides the question */
+export interface AnswerContext {
+  /** Earlier turns of the conversation, see `ConversationMemory` */
+  history?: ChatMessage[];
+  /** Page the user is looking at and the step being narrated, if any */
+  page?: PageReference;
+}
+
+/** One spoken sentence of a streamed answer */
+export interface SpokenChunk {
+  /** Position in the answer, from 0 */
+  index: number;
+  text: string;
+  audio: Buffer;
+}
+
+const ANSWER_COMPLETION_OPTIONS = {
+  model: 'gpt-4',
+  temperature: 0.7,
+  maxTokens: 500,
+};
+
+/** Narration written for a page of a document without authored steps */
+export interface PageScript {
+  pageTitle: string;
+  steps: { title: string; content: string }[];
+}
 
 @Injectable()
 export class VoiceChatService {
-  private readonly openai: OpenAI;
   private readonly logger = new Logger(VoiceChatService.name);
-  private readonly apiKey: string;
+  private readonly conversationTokenBudget: number;
   
-  constructor(private readonly configService: ConfigService) {
-    this.apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    
-    if (!this.apiKey) {
-      this.logger.error('OPENAI_API_KEY is not defined in the environment');
-      throw new Error('OPENAI_API_KEY is required');
-    }
-    
-    this.openai = new OpenAI({
-      apiKey: this.apiKey,
-    });
-    
-    // Configure ffmpeg with the installer path
-    ffmpeg.setFfmpegPath(ffmpegInstaller.path);
-    this.logger.log(`FFmpeg path set to: ${ffmpegInstaller.path}`);
+  constructor(
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LLMProvider,
+    @Inject(STT_PROVIDER) private readonly sttProvider: STTProvider,
+    @Inject(TTS_PROVIDER) private readonly ttsProvider: TTSProvider,
+    private readonly reportsService: ReportsService,
+    private readonly scoreContextBuilder: ScoreContextBuilder,
+    private readonly pageContextBuilder: PageContextBuilder,
+    private readonly reportRetrieval: ReportRetrievalService,
+    private readonly promptsService: PromptsService,
+    private readonly personasService: PersonasService,
+    private readonly narrationCache: NarrationCacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.conversationTokenBudget = Number(this.configService.get<string>('CONVERSATION_TOKEN_BUDGET')) || DEFAULT_CONVERSATION_TOKEN_BUDGET;
+    this.logger.log(`Voice chat providers - LLM: ${llmProvider.name}, STT: ${sttProvider.name}, TTS: ${ttsProvider.name}`);
   }
   
   /**
-   * Generate a response to a message using OpenAI's GPT model
+   * Generate a response to a message using the configured LLM provider
    * @param message The user's message
    * @param conversationHistory Previous conversation history
    */
-  async generateTextResponse(message: string, conversationHistory: any[] = []): Promise<string> {
+  async generateTextResponse(message: string, conversationHistory: ChatMessage[] = []): Promise<string> {
     try {
       this.logger.log('Generating response...');
       
       // Create messages array
-      const messages = [
+      const messages: ChatMessage[] = [
         { role: 'system', content: 'You are a helpful assistant.' },
         ...conversationHistory,
         { role: 'user', content: message }
       ];
       
       // Generate response
-      const response = await this.openai.chat.completions.create({
+      const responseText = await this.llmProvider.generateChat(messages, {
         model: 'gpt-4o',
-        messages: messages,
-        max_tokens: 150,
+        maxTokens: 150,
       });
       
-      const responseText = response.choices[0]?.message?.content || '';
-      
       this.logger.log('Response generated successfully');
       return responseText;
     } catch (error) {
@@ -64,7 +105,7 @@ export class VoiceChatService {
   }
   
   /**
-   * Convert text to speech using OpenAI's TTS model
+   * Convert text to speech using the configured TTS provider
    * @param text Text to convert to speech
    * @param voice Voice to use (default: 'alloy')
    */
@@ -72,15 +113,7 @@ export class VoiceChatService {
     try {
       this.logger.log(`Converting text to speech using voice: ${voice}...`);
       
-      // Generate speech
-      const mp3 = await this.openai.audio.speech.create({
-        model: 'tts-1',
-        voice: voice as any,
-        input: text,
-      });
-      
-      // Convert to buffer
-      const buffer = Buffer.from(await mp3.arrayBuffer());
+      const buffer = await this.ttsProvider.synthesize(text, { voice });
       
       this.logger.log('Text-to-speech conversion successful');
       return buffer;
@@ -107,42 +140,18 @@ export class VoiceChatService {
    * Process a buffer for transcription
    * @param audioBuffer Audio data as buffer
    * @param mimeType MIME type of the audio (default: 'audio/webm')
+   * @param language Session language, used as a hint for the speech-to-text model
    */
-  async transcribeAudio(audioBuffer: Buffer, mimeType: string = 'audio/webm'): Promise<string> {
+  async transcribeAudio(audioBuffer: Buffer, mimeType: string = 'audio/webm', language?: string): Promise<string> {
     try {
-      this.logger.log(`Transcribing audio: ${audioBuffer.length} bytes, mime type: ${mimeType}`);
-      
-      // Determine file extension
-      let fileExtension = '.webm';
-      if (mimeType) {
-        if (mimeType.includes('mp3')) fileExtension = '.mp3';
-        else if (mimeType.includes('wav')) fileExtension = '.wav';
-        else if (mimeType.includes('ogg')) fileExtension = '.ogg';
-      }
-      
-      // Create temporary files
-      const tempDir = os.tmpdir();
-      const originalFilePath = path.join(tempDir, `audio-original-${Date.now()}${fileExtension}`);
-      const wavFilePath = path.join(tempDir, `audio-converted-${Date.now()}.wav`);
-      
-      this.logger.log(`Writing audio buffer to temporary file: ${originalFilePath}`);
-      fs.writeFileSync(originalFilePath, audioBuffer);
-      
-      // Convert to WAV for Whisper API
-      await this.convertToWav(originalFilePath, wavFilePath);
+      this.logger.log(`Transcribing audio: ${audioBuffer.length} bytes, mime type: ${mimeType}, language: ${language || 'auto'}`);
       
-      // Get transcription
-      const whisperResponse = await this.openai.audio.transcriptions.create({
-        file: fs.createReadStream(wavFilePath),
-        model: 'whisper-1',
+      const transcription = await this.sttProvider.transcribe(audioBuffer, {
+        mimeType,
+        language: language ? transcriptionLanguage(language) : undefined,
       });
-      
-      const transcription = whisperResponse.text;
       this.logger.log(`Transcription result: "${transcription}"`);
       
-      // Clean up temp files
-      this.cleanupFiles([originalFilePath, wavFilePath]);
-      
       return transcription;
     } catch (error) {
       this.logger.error('Error transcribing audio:', error);
@@ -150,26 +159,32 @@ export class VoiceChatService {
     }
   }
   
-  // Generate AI response text based on transcription
-  async generateAIResponse(transcription: string): Promise<string> {
+  /**
+   * Generate AI response text based on transcription, grounded in the report's scores and
+   * the passages of the report that match the question, and bounded by its guardrails
+   * @param transcription The user's question
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param personaId Persona answering, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   * @param context.history Earlier turns of the conversation, see `ConversationMemory`
+   * @param context.page Page the user is looking at and the step being narrated, if any
+   */
+  async generateAIResponse(
+    transcription: string,
+    reportKey?: string,
+    personaId?: string,
+    language?: string,
+    context: AnswerContext = {},
+  ): Promise<string> {
     try {
-      this.logger.log('Generating AI response with GPT-4...');
+      this.logger.log('Generating AI response...');
       
-      const aiResponse = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are a helpful PDF document assistant. You help users understand and analyze PDF documents by providing thoughtful, concise, and informative responses. Answer questions about the content shown in the document, explain concepts, summarize information, and provide insights. If asked about something that might not be in the current document, still provide a helpful response while acknowledging the potential limitations of your knowledge about the specific document. Keep your responses conversational but informative.' 
-          },
-          { role: 'user', content: transcription }
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      });
+      const messages = await this.buildAnswerMessages(transcription, reportKey, personaId, language, context);
+      const aiResponse = await this.llmProvider.generateChat(messages, ANSWER_COMPLETION_OPTIONS);
       
-      const responseText = aiResponse.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+      const responseText = aiResponse || 'Sorry, I could not generate a response.';
       this.logger.log(`AI response: "${responseText.substring(0, 100)}..."`);
+      this.promptsService.detectRefusal(reportKey, responseText, 'chat');
       
       return responseText;
     } catch (error) {
@@ -177,19 +192,89 @@ export class VoiceChatService {
       throw error;
     }
   }
-  
-  // Generate text-to-speech audio from the AI response
-  async generateSpeechAudio(text: string): Promise<Buffer> {
-    try {
-      this.logger.log('Generating audio response with TTS API...');
-      const audioResponse = await this.openai.audio.speech.create({
-        model: 'tts-1',
-        voice: 'alloy',
-        input: text,
+
+  /**
+   * Answer like generateAIResponse, but speak the answer sentence by sentence while it is
+   * generated. Each sentence is synthesized as soon as it is complete; chunks are handed
+   * over in order, so the first one can play while the rest is still being written.
+   * @param transcription The user's question
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param personaId Persona answering, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   * @param context History and visible page, as for generateAIResponse
+   * @param onChunk Called with each spoken sentence, in order
+   * @param speed Speaking rate of the audio, normal speed when omitted
+   * @returns The whole answer
+   */
+  async streamAIResponse(
+    transcription: string,
+    reportKey: string | undefined,
+    personaId: string | undefined,
+    language: string | undefined,
+    context: AnswerContext,
+    onChunk: (chunk: SpokenChunk) => void,
+    speed?: number,
+  ): Promise<string> {
+    const voice = this.getVoice(reportKey, personaId, language);
+    const splitter = new SentenceSplitter();
+    const sentences: string[] = [];
+    // Chunks are handed over in order even when a later sentence is synthesized first
+    let delivered: Promise<void> = Promise.resolve();
+    let failed = false;
+
+    const speak = (text: string) => {
+      const index = sentences.push(text) - 1;
+      const audio = this.generateSpeechAudio(text, voice, speed);
+      delivered = Promise.all([delivered, audio]).then(([, buffer]) => {
+        if (!failed) onChunk({ index, text, audio: buffer });
       });
-      
-      // Get audio data as buffer
-      const responseAudioBuffer = Buffer.from(await audioResponse.arrayBuffer());
+      // Failures surface when `delivered` is awaited; until then they must not go unhandled
+      delivered.catch(() => undefined);
+    };
+
+    try {
+      this.logger.log('Streaming AI response...');
+
+      const messages = await this.buildAnswerMessages(transcription, reportKey, personaId, language, context);
+      for await (const delta of this.llmProvider.streamChat(messages, ANSWER_COMPLETION_OPTIONS)) {
+        splitter.push(delta).forEach(speak);
+      }
+
+      const rest = splitter.flush();
+      if (rest || !sentences.length) {
+        speak(rest || 'Sorry, I could not generate a response.');
+      }
+      await delivered;
+
+      const responseText = sentences.join(' ');
+      this.logger.log(`AI response in ${sentences.length} chunks: "${responseText.substring(0, 100)}..."`);
+      this.promptsService.detectRefusal(reportKey, responseText, 'chat');
+
+      return responseText;
+    } catch (error) {
+      failed = true;
+      this.logger.error('Error streaming AI response:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * MIME type of the audio made by generateSpeechAudio and textToSpeech
+   */
+  get speechMimeType(): string {
+    return this.ttsProvider.audioMimeType;
+  }
+
+  /**
+   * Generate text-to-speech audio from the AI response
+   * @param text Text to speak
+   * @param voice Voice of the speaking persona
+   * @param speed Speaking rate, normal speed when omitted
+   */
+  async generateSpeechAudio(text: string, voice: string = DEFAULT_PERSONA_VOICE, speed?: number): Promise<Buffer> {
+    try {
+      this.logger.log(`Generating audio response with TTS provider using voice: ${voice}...`);
+      const responseAudioBuffer = await this.ttsProvider.synthesize(text, { voice, speed });
       this.logger.log(`Generated audio response size: ${responseAudioBuffer.length} bytes`);
       
       return responseAudioBuffer;
@@ -199,54 +284,26 @@ export class VoiceChatService {
     }
   }
   
-  // Convert audio file to WAV format
-  private async convertToWav(inputPath: string, outputPath: string): Promise<void> {
-    this.logger.log(`Converting audio file to WAV format: ${inputPath} -> ${outputPath}`);
-    
-    return new Promise<void>((resolve, reject) => {
-      ffmpeg(inputPath)
-        .inputOption('-y')
-        .audioFrequency(16000)
-        .audioChannels(1)
-        .format('wav')
-        .on('error', (err) => {
-          this.logger.error('Error during ffmpeg conversion:', err);
-          reject(err);
-        })
-        .on('end', () => {
-          this.logger.log('Audio conversion successful');
-          resolve();
-        })
-        .save(outputPath);
-    });
-  }
-  
-  // Clean up temporary files
-  private cleanupFiles(filePaths: string[]): void {
-    for (const filePath of filePaths) {
-      try {
-        fs.unlinkSync(filePath);
-      } catch (error) {
-        this.logger.error(`Error deleting temporary file ${filePath}:`, error);
-      }
-    }
-    this.logger.verbose('Temporary audio files deleted');
-  }
-  
   // Process complete audio flow: transcribe, generate response, generate speech
-  async processCompleteAudioFlow(audioBuffer: Buffer, mimeType: string = 'audio/webm'): Promise<{ 
+  async processCompleteAudioFlow(
+    audioBuffer: Buffer,
+    mimeType: string = 'audio/webm',
+    reportKey?: string,
+    personaId?: string,
+    language?: string,
+  ): Promise<{ 
     transcription: string; 
     aiResponse: string; 
     audioResponse: Buffer;
   }> {
     // Transcribe the audio to text
-    const transcription = await this.transcribeAudio(audioBuffer, mimeType);
+    const transcription = await this.transcribeAudio(audioBuffer, mimeType, language);
     
     // Generate AI text response
-    const aiResponse = await this.generateAIResponse(transcription);
+    const aiResponse = await this.generateAIResponse(transcription, reportKey, personaId, language);
     
     // Generate speech audio from the AI response
-    const audioResponse = await this.generateSpeechAudio(aiResponse);
+    const audioResponse = await this.generateSpeechAudio(aiResponse, this.getVoice(reportKey, personaId, language));
     
     return {
       transcription,
@@ -255,37 +312,25 @@ export class VoiceChatService {
     };
   }
 
-  // Add new method to get page content from prompt-data.json
-  async getPageContent(pageNumber: number): Promise<{ 
+  /**
+   * Get the combined step content of a report page
+   * @param pageNumber Page number as shown in the PDF viewer
+   * @param reportKey Report the session is bound to, the default report when omitted
+   */
+  async getPageContent(pageNumber: number, reportKey?: string): Promise<{ 
     content: string; 
     pageTitle: string;
     pageCount: number;
   }> {
     try {
-      // Read the prompt-data.json file
-      const promptDataPath = path.join(process.cwd(), 'public', 'prompt-data.json');
-      const promptDataContent = fs.readFileSync(promptDataPath, 'utf-8');
-      const promptData = JSON.parse(promptDataContent);
+      const pageData = this.reportsService.getPage(reportKey, pageNumber);
       
-      // Find the page data
-      const pageData = promptData.pages?.find((page: any) => page.page === pageNumber.toString()) || 
-                        promptData.find((page: any) => page.page === pageNumber.toString());
+      // Combine the step content in narration order
+      const combinedContent = this.reportsService.getPageSteps(reportKey, pageNumber)
+        .map(step => step.content)
+        .join(' ');
       
-      if (!pageData) {
-        throw new Error(`Page ${pageNumber} not found in prompt data`);
-      }
-      
-      // Extract all step content for the page
-      let combinedContent = '';
-      const steps = pageData.steps || [];
-      
-      for (const step of steps) {
-        combinedContent += step.content + ' ';
-      }
-      
-      // Get total page count
-      const pageCount = promptData.pages?.length || 
-                        promptData.filter((page: any) => page.page !== undefined).length || 0;
+      const pageCount = this.reportsService.getReport(reportKey).pages.length;
       
       return {
         content: combinedContent.trim(),
@@ -298,27 +343,63 @@ export class VoiceChatService {
     }
   }
 
-  // Add method to summarize page content and convert to speech
-  async summarizePageContent(pageNumber: number): Promise<{ 
+  /**
+   * Summarize a page and convert the summary to speech.
+   * Summaries are cached per report, page, voice and language until the page content changes.
+   * @param pageNumber Page number as shown in the PDF viewer
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param onProgress Called as each stage starts; a cached summary skips summarizing and synthesizing
+   * @param personaId Persona narrating, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   */
+  async summarizePageContent(
+    pageNumber: number,
+    reportKey?: string,
+    onProgress?: (stage: PageSummaryStage) => void,
+    personaId?: string,
+    language?: string,
+  ): Promise<{ 
     summary: string; 
     audioResponse: Buffer;
+    audioMimeType: string;
     pageTitle: string;
     pageCount: number;
   }> {
     try {
       // Get page content
-      const { content, pageTitle, pageCount } = await this.getPageContent(pageNumber);
+      onProgress?.('loading');
+      const { content, pageTitle, pageCount } = await this.getPageContent(pageNumber, reportKey);
       this.logger.log(`Summarizing content for page ${pageNumber}: ${pageTitle}`);
       
-      // Generate summary with OpenAI
-      const summary = await this.generatePageSummary(content, pageTitle, pageNumber);
-      
-      // Convert summary to speech
-      const audioResponse = await this.generateSpeechAudio(summary);
+      const sessionLanguage = this.personasService.resolveLanguage(reportKey, language, personaId);
+      const persona = this.personasService.getPersona(reportKey, personaId, sessionLanguage);
+      const voice = persona?.voice || DEFAULT_PERSONA_VOICE;
+      const instructions = [
+        this.personasService.getStyleInstructions(persona),
+        this.promptsService.getLanguageInstructions(sessionLanguage),
+      ].filter(Boolean).join(' ');
+
+      const { text: summary, audio: audioResponse, mimeType: audioMimeType } = await this.narrationCache.getOrCreate({
+        reportKey: this.reportsService.resolveReportKey({ documentKey: reportKey }),
+        entry: `page-${pageNumber}`,
+        personaId: persona?.personaId || '',
+        voice,
+        language: sessionLanguage,
+        contentHash: contentHash(pageTitle, content, instructions),
+      }, async () => {
+        // Generate summary with the LLM provider
+        onProgress?.('summarizing');
+        const text = await this.generatePageSummary(content, pageTitle, pageNumber, instructions);
+
+        // Convert summary to speech
+        onProgress?.('synthesizing');
+        return { text, audio: await this.generateSpeechAudio(text, voice), mimeType: this.speechMimeType };
+      });
       
       return {
         summary,
         audioResponse,
+        audioMimeType,
         pageTitle,
         pageCount
       };
@@ -328,25 +409,202 @@ export class VoiceChatService {
     }
   }
 
-  // Generate summary of page content using OpenAI
-  private async generatePageSummary(content: string, pageTitle: string, pageNumber: number): Promise<string> {
+  /**
+   * Voice of a persona, the default voice when the report has no personas
+   * @param reportKey Report the session is bound to, the default report when omitted
+   * @param personaId Persona speaking, the report's default persona when omitted
+   * @param language Session language, the persona's or the report's language when omitted
+   */
+  getVoice(reportKey?: string, personaId?: string, language?: string): string {
+    const sessionLanguage = this.personasService.resolveLanguage(reportKey, language, personaId);
+    return this.personasService.getPersona(reportKey, personaId, sessionLanguage)?.voice || DEFAULT_PERSONA_VOICE;
+  }
+
+  /**
+   * Translate authored report text into the session language.
+   * Text is returned unchanged when the session speaks the report's language.
+   * @param text Text to translate
+   * @param language Session language
+   * @param reportKey Report the text comes from, the default report when omitted
+   */
+  async translateText(text: string, language: string | undefined, reportKey?: string): Promise<string> {
+    const reportLanguage = this.reportsService.getReport(reportKey).language;
+    if (!language || !text.trim() || sameLanguage(language, reportLanguage)) {
+      return text;
+    }
+
+    try {
+      this.logger.log(`Translating ${text.length} chars from ${reportLanguage} to ${language}`);
+      const translation = await this.llmProvider.generateChat([
+        {
+          role: 'system',
+          content: `Translate the following narration of a feedback report from ${languageName(reportLanguage)} into ${languageName(language)}. Keep the meaning, tone and any names. Reply with the translation only.`
+        },
+        { role: 'user', content: text }
+      ], {
+        model: 'gpt-4',
+        temperature: 0.2,
+        maxTokens: 1000,
+      });
+
+      return translation?.trim() || text;
+    } catch (error) {
+      this.logger.error(`Error translating text to ${language}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the conversation history of a voice chat session, bounded by CONVERSATION_TOKEN_BUDGET.
+   * Older turns are summarized in the session language.
+   * @param language Session language
+   */
+  createConversationMemory(language?: string): ConversationMemory {
+    return new ConversationMemory({
+      tokenBudget: this.conversationTokenBudget,
+      summarize: (summary, messages) => this.summarizeConversation(summary, messages, language),
+    });
+  }
+
+  /**
+   * Fold conversation turns into a running summary
+   * @param summary Summary of the earlier conversation, empty at first
+   * @param messages Turns to add, oldest first
+   * @param language Language to write the summary in
+   */
+  async summarizeConversation(summary: string, messages: ChatMessage[], language?: string): Promise<string> {
+    try {
+      this.logger.log(`Summarizing ${messages.length} conversation messages...`);
+
+      const transcript = messages
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+        .join('\n');
+
+      const response = await this.llmProvider.generateChat([
+        {
+          role: 'system',
+          content: `You keep notes on a conversation about a participant's feedback report. Merge the earlier summary and the new turns into one short summary${language ? ` in ${languageName(language)}` : ''}. Keep the questions asked, the facts and results discussed, and anything the user refers back to, in the order they came up. Reply with the summary only.`
+        },
+        { role: 'user', content: `Earlier summary: ${summary || '(none)'}\n\nNew turns:\n${transcript}` }
+      ], {
+        model: 'gpt-4',
+        temperature: 0.2,
+        maxTokens: 300,
+      });
+
+      return response?.trim() || summary;
+    } catch (error) {
+      this.logger.error('Error summarizing conversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write narration for a page of a document that has no authored steps: a few segments,
+   * each about one part of the page, in reading order
+   * @param pageNumber Page number as shown in the PDF viewer
+   * @param text Text extracted from the page
+   * @param language Language to write the narration in, English when omitted
+   */
+  async writePageScript(pageNumber: number, text: string, language?: string): Promise<PageScript> {
+    const heading = text.split('\n')[0].trim().slice(0, 80) || `Page ${pageNumber}`;
+
+    try {
+      this.logger.log(`Writing narration for page ${pageNumber} (${text.length} chars)...`);
+
+      const response = await this.llmProvider.generateChat([
+        {
+          role: 'system',
+          content: `You write the narration a guide speaks while walking someone through page ${pageNumber} of a document. Split the page into 1 to 5 segments in reading order, each about one part of the page, such as a heading, a chart or a table. Give each segment a short title and 2 to 4 spoken sentences in ${languageName(language || 'en')} that explain it directly to the reader. Only use what the page says. Reply with JSON only: {"pageTitle": "...", "steps": [{"title": "...", "content": "..."}]}`
+        },
+        { role: 'user', content: text }
+      ], {
+        model: 'gpt-4',
+        temperature: 0.4,
+        maxTokens: 800,
+      });
+
+      return this.parsePageScript(response, heading);
+    } catch (error) {
+      this.logger.error(`Error writing narration for page ${pageNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // Read the model's JSON reply; a reply that isn't JSON is narrated as a single step
+  private parsePageScript(response: string, heading: string): PageScript {
+    const reply = (response || '').trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+    try {
+      const parsed = JSON.parse(reply);
+      const steps = (Array.isArray(parsed?.steps) ? parsed.steps : [])
+        .filter(step => typeof step?.content === 'string' && step.content.trim())
+        .map(step => ({ title: String(step.title || heading).trim(), content: step.content.trim() }));
+
+      if (steps.length) {
+        return { pageTitle: String(parsed.pageTitle || heading).trim(), steps };
+      }
+    } catch {
+      this.logger.warn('Narration reply is not JSON, using it as a single step');
+    }
+
+    return { pageTitle: heading, steps: reply ? [{ title: heading, content: reply }] : [] };
+  }
+
+  // System prompt with the report's context, then the earlier turns and the question
+  private async buildAnswerMessages(
+    transcription: string,
+    reportKey: string | undefined,
+    personaId: string | undefined,
+    language: string | undefined,
+    { history = [], page }: AnswerContext,
+  ): Promise<ChatMessage[]> {
+    const sessionLanguage = this.personasService.resolveLanguage(reportKey, language, personaId);
+    const scoreContext = this.scoreContextBuilder.build(reportKey, sessionLanguage);
+    const pageContext = this.pageContextBuilder.build(reportKey, page);
+    const passages = await this.reportRetrieval.buildContext(reportKey, transcription);
+    const persona = this.personasService.getPersona(reportKey, personaId, sessionLanguage);
+
+    return [
+      { 
+        role: 'system', 
+        content: this.promptsService.composeInstructions(
+          reportKey,
+          'You are a helpful PDF document assistant. You help users understand and analyze PDF documents by providing thoughtful, concise, and informative responses. Answer questions about the content shown in the document, explain concepts, summarize information, and provide insights. If asked about something that might not be in the current document, still provide a helpful response while acknowledging the potential limitations of your knowledge about the specific document. Keep your responses conversational but informative.',
+          {
+            style: this.personasService.getStyleInstructions(persona),
+            language: sessionLanguage,
+            context: [
+              scoreContext ? `The document is the participant's feedback report. Their results:\n\n${scoreContext}` : '',
+              pageContext,
+              passages,
+            ].filter(Boolean).join('\n\n') || undefined,
+          },
+        )
+      },
+      ...history,
+      { role: 'user', content: transcription }
+    ];
+  }
+
+  // Generate summary of page content using the LLM provider, with the persona's style and language instructions appended
+  private async generatePageSummary(content: string, pageTitle: string, pageNumber: number, instructions: string = ''): Promise<string> {
     try {
       this.logger.log(`Generating summary for "${pageTitle}" (Page ${pageNumber})...`);
       
-      const aiResponse = await this.openai.chat.completions.create({
+      const aiResponse = await this.llmProvider.generateChat([
+        { 
+          role: 'system', 
+          content: `You are an expert guide explaining a PDF document. Summarize the following content from page ${pageNumber} titled "${pageTitle}" in a conversational tone. Speak directly to the user as if you're narrating the PDF for them. Keep your response clear, helpful, and engaging without being overly formal. Limit your response to 3-4 sentences.${instructions ? ` ${instructions}` : ''}` 
+        },
+        { role: 'user', content }
+      ], {
         model: 'gpt-4',
-        messages: [
-          { 
-            role: 'system', 
-            content: `You are an expert guide explaining a PDF document. Summarize the following content from page ${pageNumber} titled "${pageTitle}" in a conversational tone. Speak directly to the user as if you're narrating the PDF for them. Keep your response clear, helpful, and engaging without being overly formal. Limit your response to 3-4 sentences.` 
-          },
-          { role: 'user', content }
-        ],
         temperature: 0.7,
-        max_tokens: 250,
+        maxTokens: 250,
       });
       
-      const summaryText = aiResponse.choices[0]?.message?.content || 
+      const summaryText = aiResponse || 
         `I'm sorry, I couldn't generate a summary for page ${pageNumber}.`;
       
       this.logger.log(`Generated summary: "${summaryText.substring(0, 100)}..."`);
@@ -11,6 +11,10 @@ import { Server, Socket } from 'socket.io';
 import { Injectable, Logger } from '@nestjs/common';
 import * as crypto from 'crypto';
 import { WebRTCService } from './webrtc.service';
+import { ReportsService } from '../reports/reports.service';
+import { ReportLookup } from '../reports/reports.repository';
+import { toPageReference } from '../reports/page-context.builder';
+import { PersonasService } from '../personas/personas.service';
 import { v4 as uuidv4 } from 'uuid';
 
 interface WebRTCSession {
@@ -59,7 +63,11 @@ export class WebRTCGateway implements OnGatewayConnection, OnGatewayDisconnect {
   private readonly realtimeSessions = new Map<string, RealtimeSession>();
   private readonly clientSessions = new Map<string, string>();
   
-  constructor(private readonly webrtcService: WebRTCService) {
+  constructor(
+    private readonly webrtcService: WebRTCService,
+    private readonly reportsService: ReportsService,
+    private readonly personasService: PersonasService,
+  ) {
     this.logger.log('WebRTC Gateway initialized');
     
     // Set up session cleanup interval
@@ -218,11 +226,20 @@ export class WebRTCGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('start-realtime-session')
   async handleStartRealtimeSession(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { sessionId?: string, initialPrompt?: string, voice?: string } = {}
+    @MessageBody() data: { sessionId?: string, initialPrompt?: string, voice?: string, personaId?: string, language?: string, pageNumber?: number, stepKey?: string } & ReportLookup = {}
   ): Promise<void> {
     try {
       this.logger.log(`🔷 Received start-realtime-session request from client ${client.id}`);
       
+      // Resolve the report this session is about before allocating anything
+      const reportKey = this.reportsService.resolveReportKey({
+        documentKey: data.documentKey,
+        liveReportKey: data.liveReportKey,
+        participantId: data.participantId,
+      });
+      const language = this.personasService.resolveLanguage(reportKey, data.language, data.personaId);
+      const persona = this.personasService.getPersona(reportKey, data.personaId, language);
+      
       // Generate a unique session ID with a prefix
       const sessionId = `realtime-${uuidv4()}`;
       this.logger.log(`🔷 Generated new session ID: ${sessionId} for client ${client.id}`);
@@ -231,8 +248,8 @@ export class WebRTCGateway implements OnGatewayConnection, OnGatewayDisconnect {
       this.clientSessions.set(client.id, sessionId);
       this.logger.log(`🔷 Associated client ${client.id} with session ${sessionId}`);
       
-      // Create a new session with voice parameter if provided
-      const config = { voice: data.voice };
+      // Create a new session with the persona's voice unless a voice was requested
+      const config = { voice: data.voice || persona?.voice };
       this.logger.log(`🔷 Creating session with config: ${JSON.stringify(config)}`);
       const session = await this.webrtcService.createRealtimeSession(sessionId, config);
       if (!session) {
@@ -249,6 +266,10 @@ export class WebRTCGateway implements OnGatewayConnection, OnGatewayDisconnect {
       const realtimeSession = this.webrtcService.getRealtimeSession(sessionId);
       if (realtimeSession) {
         realtimeSession.createdAt = new Date();
+        realtimeSession.reportKey = reportKey;
+        realtimeSession.personaId = persona?.personaId;
+        realtimeSession.language = language;
+        realtimeSession.page = toPageReference(data);
         this.logger.log(`✅ Created realtime session ${sessionId} for client ${client.id} at ${realtimeSession.createdAt.toISOString()}`);
       }
       
@@ -273,7 +294,10 @@ export class WebRTCGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // Emit success event with the session ID
       client.emit('realtime-session-started', { 
         success: true, 
-        sessionId 
+        sessionId,
+        reportKey,
+        personaId: persona?.personaId,
+        language
       });
       this.logger.log(`✅ Sent success response to client ${client.id} with session ID ${sessionId}`);
     } catch (error) {
@@ -780,16 +804,8 @@ a=fmtp:111 minptime=10;useinbandfec=1
     try {
       this.logger.log(`Testing direct OpenAI connection for client ${client.id}`);
       
-      // Get API key and model from service
-      const apiKey = process.env.OPENAI_API_KEY;
-      const model = process.env.OPENAI_REALTIME_MODEL || 'gpt-4o-realtime-preview-2024-12-17';
-      
-      if (!apiKey) {
-        throw new Error('API key not configured');
-      }
-      
-      // Use exact URL from working test
-      const url = `wss://api.openai.com/v1/realtime?model=${model}`;
+      // Use the same endpoint and headers as the service
+      const url = this.webrtcService.getRealtimeUrl();
       
       this.logger.log(`Connecting to WebSocket endpoint: ${url}`);
       this.logger.log('Using headers: Authorization: Bearer *****, OpenAI-Beta: realtime=v1');
@@ -797,10 +813,7 @@ a=fmtp:111 minptime=10;useinbandfec=1
       // Set up connection with minimal options
       const WebSocket = require('ws');
       const ws = new WebSocket(url, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'OpenAI-Beta': 'realtime=v1'
-        }
+        headers: this.webrtcService.getRealtimeHeaders()
       });
       
       // Set a connection timeout
@@ -1191,7 +1204,7 @@ a=fmtp:111 minptime=10;useinbandfec=1
    */
   @SubscribeMessage('commit-audio-buffer')
   async handleCommitAudioBuffer(
-    @MessageBody() data: { sessionId: string },
+    @MessageBody() data: { sessionId: string, pageNumber?: number, stepKey?: string },
     @ConnectedSocket() client: Socket,
   ) {
     try {
@@ -1203,9 +1216,12 @@ a=fmtp:111 minptime=10;useinbandfec=1
       
       this.logger.log(`Manually committing audio buffer for session ${sessionId}`);
       
-      // Verify session exists
-      if (!this.webrtcService.hasRealtimeSession(sessionId)) {
-        throw new Error(`Session not found: ${sessionId}`);
+      this.verifySessionOwner(client, sessionId);
+      
+      // Answer about the page visible when the user spoke
+      const page = toPageReference(data);
+      if (page) {
+        await this.webrtcService.updatePageContext(sessionId, page);
       }
       
       // Send commit command to OpenAI
@@ -1227,7 +1243,7 @@ a=fmtp:111 minptime=10;useinbandfec=1
    */
   @SubscribeMessage('create-response')
   async handleCreateResponse(
-    @MessageBody() data: { sessionId: string },
+    @MessageBody() data: { sessionId: string, pageNumber?: number, stepKey?: string },
     @ConnectedSocket() client: Socket,
   ) {
     try {
@@ -1239,9 +1255,11 @@ a=fmtp:111 minptime=10;useinbandfec=1
       
       this.logger.log(`Manually creating response for session ${sessionId}`);
       
-      // Verify session exists
-      if (!this.webrtcService.hasRealtimeSession(sessionId)) {
-        throw new Error(`Session not found: ${sessionId}`);
+      this.verifySessionOwner(client, sessionId);
+      
+      const page = toPageReference(data);
+      if (page) {
+        await this.webrtcService.updatePageContext(sessionId, page);
       }
       
       // Send response.create command to OpenAI
@@ -1293,4 +1311,85 @@ a=fmtp:111 minptime=10;useinbandfec=1
       return { error: error.message };
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Handle a typed message for a live session; the reply is streamed back with
+   * realtime-event like an answer to a spoken question
+   */
+  @SubscribeMessage('realtime-text-input')
+  async handleRealtimeTextInput(
+    @MessageBody() data: { sessionId: string, text: string, pageNumber?: number, stepKey?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const { sessionId } = data;
+      const text = data.text?.trim();
+      
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+      if (!text) {
+        throw new Error('Text is required');
+      }
+      this.verifySessionOwner(client, sessionId);
+      
+      const page = toPageReference(data);
+      if (page) {
+        await this.webrtcService.updatePageContext(sessionId, page);
+      }
+      
+      if (!await this.webrtcService.sendTextMessage(sessionId, text)) {
+        throw new Error(`Session ${sessionId} is not connected`);
+      }
+      
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Error sending text input:`, error);
+      return { error: error.message };
+    }
+  }
+  
+  /**
+   * The participant moved to another page or narration moved to another step;
+   * the session's instructions are updated with the new page
+   */
+  @SubscribeMessage('realtime-page-context')
+  async handleRealtimePageContext(
+    @MessageBody() data: { sessionId: string, pageNumber: number, stepKey?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    try {
+      const { sessionId } = data;
+      
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+      this.verifySessionOwner(client, sessionId);
+      
+      const page = toPageReference(data);
+      if (!page) {
+        throw new Error('Page number is required');
+      }
+      
+      const updated = await this.webrtcService.updatePageContext(sessionId, page);
+      
+      return { success: true, updated };
+    } catch (error) {
+      this.logger.error(`Error updating page context:`, error);
+      return { error: error.message };
+    }
+  }
+  
+  /**
+   * Make sure a realtime session exists and was started or connected by this client,
+   * so no other socket can steer it
+   */
+  private verifySessionOwner(client: Socket, sessionId: string) {
+    if (!this.webrtcService.hasRealtimeSession(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    if (this.clientSessions.get(client.id) !== sessionId) {
+      throw new Error(`Unauthorized: Client ${client.id} does not own session ${sessionId}`);
+    }
+  }
+}
@@ -5,6 +5,12 @@ import axios from 'axios';
 import { WebSocket } from 'ws';
 import { Socket } from 'socket.io';
 import * as WaveFile from 'wavefile';
+import { ScoreContextBuilder } from '../reports/score-context.builder';
+import { PageContextBuilder, PageReference } from '../reports/page-context.builder';
+import { PromptsService } from '../prompts/prompts.service';
+import { PersonasService } from '../personas/personas.service';
+import { RealtimeToolRegistry } from './realtime-tools/realtime-tool.registry';
+import { RealtimeToolContext } from './realtime-tools/realtime-tool.interface';
 
 interface WebRTCConnectionResponse {
   answer: RTCSessionDescriptionInit;
@@ -18,6 +24,13 @@ export interface RealtimeSession {
   clientId: string;
   clientSocket?: Socket;
   clientSocketIds: string[];
+  reportKey?: string;
+  personaId?: string;
+  language?: string;
+  // Page the participant is looking at, and the step being narrated on it
+  page?: PageReference;
+  // Prompt sent with connect-realtime-session, kept to rebuild the instructions
+  initialPrompt?: string;
   state: 'created' | 'connecting' | 'connected' | 'disconnected';
   modelConnection?: WebSocket;
   config: {
@@ -54,43 +67,73 @@ export class WebRTCService implements OnModuleDestroy {
   private readonly openaiUrl: string;
   private readonly apiVersion: string;
   private readonly realtimeModel: string;
+  private readonly realtimeUrl: string;
   private readonly activeSessions = new Set<string>();
   private readonly realtimeSessions = new Map<string, RealtimeSession>();
   private healthCheckInterval: NodeJS.Timeout;
   private sessionCleanupInterval: NodeJS.Timeout;
   
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly scoreContextBuilder: ScoreContextBuilder,
+    private readonly pageContextBuilder: PageContextBuilder,
+    private readonly toolRegistry: RealtimeToolRegistry,
+    private readonly promptsService: PromptsService,
+    private readonly personasService: PersonasService,
+  ) {
     this.apiKey = this.configService.get<string>('OPENAI_API_KEY');
     this.debugMode = this.configService.get<string>('DEBUG_MODE') === 'true';
     this.openaiUrl = this.configService.get<string>('OPENAI_API_URL') || 'https://api.openai.com/v1';
     this.apiVersion = this.configService.get<string>('OPENAI_API_VERSION') || '2023-05-15';
     this.realtimeModel = this.configService.get<string>('OPENAI_REALTIME_MODEL') || 'gpt-4o-realtime-preview-2024-12-17';
+    this.realtimeUrl = this.configService.get<string>('OPENAI_REALTIME_URL') || 'wss://api.openai.com/v1/realtime';
     
-    if (!this.apiKey) {
-      const errorMsg = 'OPENAI_API_KEY is not defined in the .env file! You must add your own API key';
-      this.logger.error(errorMsg);
-      this.logger.error('Please update the .env file with your OpenAI API key');
-      this.logger.error('You need access to the OpenAI Realtime API (gpt-4o-realtime-preview model)');
-      throw new Error(errorMsg);
+    // The key is checked when a realtime session connects, so the rest of the app,
+    // e.g. narration with the mock provider, runs without one
+    if (!this.requiresApiKey()) {
+      this.logger.log(`Using custom realtime endpoint: ${this.realtimeUrl}`);
+    } else if (this.apiKeyProblem()) {
+      this.logger.warn(`${this.apiKeyProblem()}; realtime voice chat is unavailable until it is set`);
     }
     
-    if (this.apiKey === 'your_api_key_here') {
-      const errorMsg = 'You are using the placeholder API key! Replace it with your actual OpenAI API key in the .env file';
-      this.logger.error(errorMsg);
-      this.logger.error('Please update the .env file with your OpenAI API key');
-      this.logger.error('You need access to the OpenAI Realtime API (gpt-4o-realtime-preview model)');
-      throw new Error(errorMsg);
+    if (this.apiKey) {
+      this.openai = new OpenAI({
+        apiKey: this.apiKey,
+      });
     }
     
-    this.openai = new OpenAI({
-      apiKey: this.apiKey,
-    });
-    
     // Initialize health check - run every 30 seconds
     this.healthCheckInterval = setInterval(() => this.healthCheck(), 30000);
     this.logger.log('WebRTC service initialized with health check');
   }
   
+  /**
+   * What is wrong with the configured OpenAI API key, if anything
+   */
+  private apiKeyProblem(): string | undefined {
+    if (!this.apiKey) {
+      return 'OPENAI_API_KEY is not defined in the .env file';
+    }
+    if (this.apiKey === 'your_api_key_here') {
+      return 'OPENAI_API_KEY is still the placeholder value';
+    }
+    if (this.apiKey.length < 30) {
+      return `OPENAI_API_KEY looks invalid (${this.apiKey.length} characters)`;
+    }
+    return undefined;
+  }
+  
+  /**
+   * Whether the configured realtime endpoint is OpenAI's and needs an API key
+   */
+  private requiresApiKey(): boolean {
+    try {
+      return new URL(this.realtimeUrl).hostname.endsWith('api.openai.com');
+    } catch {
+      return true;
+    }
+  }
+  
   /**
    * Health check to ensure the service is running
    */
@@ -217,6 +260,37 @@ export class WebRTCService implements OnModuleDestroy {
     }
   }
   
+  /**
+   * Compose the session instructions: the client's prompt, the report's design prompt,
+   * the persona's speaking style, the scores of the session's report, the page the
+   * participant is looking at and the report's guardrails
+   * @param session The realtime session
+   * @param initialPrompt Prompt sent by the client
+   */
+  private buildInstructions(session: RealtimeSession, initialPrompt: string): string {
+    const instructions = initialPrompt || 'You are a helpful AI assistant. Answer the user\'s questions in a friendly and concise manner.';
+    if (!session.reportKey) {
+      return instructions;
+    }
+    
+    try {
+      const scoreContext = this.scoreContextBuilder.build(session.reportKey, session.language);
+      const pageContext = this.pageContextBuilder.build(session.reportKey, session.page);
+      const persona = this.personasService.getPersona(session.reportKey, session.personaId, session.language);
+      return this.promptsService.composeInstructions(session.reportKey, instructions, {
+        style: this.personasService.getStyleInstructions(persona),
+        language: session.language,
+        context: [
+          scoreContext ? `The user is the participant of a feedback report. Their results:\n\n${scoreContext}` : '',
+          pageContext,
+        ].filter(Boolean).join('\n\n') || undefined,
+      });
+    } catch (error) {
+      this.logger.error(`Error building instructions for report ${session.reportKey}: ${error.message}`);
+      return instructions;
+    }
+  }
+  
   /**
    * Connect to OpenAI's realtime API via WebSocket
    * @param sessionId Client's session ID
@@ -241,6 +315,7 @@ export class WebRTCService implements OnModuleDestroy {
       // Update session state
       this.logger.log(`Setting session ${sessionId} state to 'connecting'`);
       session.state = 'connecting';
+      session.initialPrompt = initialPrompt;
       
       // Clean up any existing connection
       if (session.modelConnection) {
@@ -254,7 +329,7 @@ export class WebRTCService implements OnModuleDestroy {
       }
       
       // Use the exact URL format and parameters from the API documentation
-      const url = `wss://api.openai.com/v1/realtime?model=${this.realtimeModel}`;
+      const url = `${this.realtimeUrl}?model=${this.realtimeModel}`;
       
       this.logger.log(`Connecting to OpenAI real-time API for session ${sessionId}`);
       this.logger.log(`Using URL: ${url}`);
@@ -262,8 +337,8 @@ export class WebRTCService implements OnModuleDestroy {
       this.logger.log(`OpenAI Realtime model: ${this.realtimeModel}`);
       
       // Validate API key before attempting connection
-      if (!this.apiKey || this.apiKey.length < 30) {
-        this.logger.error(`Invalid API key for session ${sessionId}. Key length: ${this.apiKey ? this.apiKey.length : 0}`);
+      if (this.requiresApiKey() && this.apiKeyProblem()) {
+        this.logger.error(`Cannot connect session ${sessionId}: ${this.apiKeyProblem()}. The OpenAI Realtime API needs your own key with access to ${this.realtimeModel}`);
         session.state = 'disconnected';
         return false;
       }
@@ -271,10 +346,7 @@ export class WebRTCService implements OnModuleDestroy {
       // Create WebSocket with proper headers
       this.logger.log(`Creating new WebSocket connection`);
       const ws = new WebSocket(url, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'OpenAI-Beta': 'realtime=v1'
-        }
+        headers: this.getRealtimeHeaders()
       });
       
       // Set up a timeout for the connection attempt
@@ -311,12 +383,14 @@ export class WebRTCService implements OnModuleDestroy {
             const sessionConfig = {
               type: 'session.update',
               session: {
-                instructions: initialPrompt || 'You are a helpful AI assistant. Answer the user\'s questions in a friendly and concise manner.',
+                instructions: this.buildInstructions(session, initialPrompt),
                 voice: session.config.voice,
                 modalities: session.config.modalities,
                 input_audio_format: "pcm16",
                 output_audio_format: "pcm16",
-                turn_detection: session.config.turn_detection
+                turn_detection: session.config.turn_detection,
+                tools: this.toolRegistry.getDefinitions(),
+                tool_choice: 'auto'
               }
             };
             
@@ -354,13 +428,14 @@ export class WebRTCService implements OnModuleDestroy {
               
               // Add more detailed logging for audio events
               if (event.type === 'response.audio.delta') {
-                const hasAudio = !!(event.delta && event.delta.audio);
-                const audioLength = hasAudio ? event.delta.audio.length : 0;
+                const deltaAudio = typeof event.delta === 'string' ? event.delta : event.delta?.audio;
+                const hasAudio = !!deltaAudio;
+                const audioLength = hasAudio ? deltaAudio.length : 0;
                 this.logger.log(`Received audio delta for session ${sessionId} - Has audio: ${hasAudio}, Length: ${audioLength}`);
                 
                 if (hasAudio) {
                   // Log a sample of the audio data for debugging
-                  this.logger.log(`Audio data sample: ${event.delta.audio.substring(0, 20)}... (${audioLength} chars)`);
+                  this.logger.log(`Audio data sample: ${deltaAudio.substring(0, 20)}... (${audioLength} chars)`);
                 }
               }
               
@@ -421,6 +496,26 @@ export class WebRTCService implements OnModuleDestroy {
     }
   }
   
+  /**
+   * Get the realtime endpoint URL including the model query parameter
+   */
+  getRealtimeUrl(): string {
+    return `${this.realtimeUrl}?model=${this.realtimeModel}`;
+  }
+  
+  /**
+   * Headers for the realtime WebSocket handshake
+   */
+  getRealtimeHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'OpenAI-Beta': 'realtime=v1'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+  
   /**
    * Send audio buffer to OpenAI
    * @param sessionId Client's session ID 
@@ -521,7 +616,8 @@ export class WebRTCService implements OnModuleDestroy {
           
         case 'response.audio.delta':
           // Enhanced audio logging
-          const audioData = event.delta?.audio || '';
+          // The realtime API sends the base64 audio directly as the delta
+          const audioData = (typeof event.delta === 'string' ? event.delta : event.delta?.audio) || '';
           const audioLength = audioData.length;
           
           if (audioLength > 0) {
@@ -533,6 +629,14 @@ export class WebRTCService implements OnModuleDestroy {
           }
           break;
           
+        case 'response.audio_transcript.done':
+          this.promptsService.detectRefusal(this.realtimeSessions.get(sessionId)?.reportKey, event.transcript, `realtime ${sessionId}`);
+          break;
+          
+        case 'response.text.done':
+          this.promptsService.detectRefusal(this.realtimeSessions.get(sessionId)?.reportKey, event.text, `realtime ${sessionId}`);
+          break;
+          
         case 'response.text.final':
           this.logger.log(`Final text received for ${sessionId}`);
           break;
@@ -545,6 +649,17 @@ export class WebRTCService implements OnModuleDestroy {
           this.logger.log(`Response completed for ${sessionId}`);
           break;
           
+        case 'response.function_call_arguments.done':
+          this.logger.log(`Function call ${event.name} requested for ${sessionId}`);
+          break;
+          
+        case 'response.done':
+          this.logger.log(`Response done for ${sessionId}`);
+          this.handleFunctionCalls(sessionId, event.response).catch(error => {
+            this.logger.error(`Error handling function calls for ${sessionId}: ${error.message}`);
+          });
+          break;
+          
         case 'error':
           const errorMessage = event.error?.message || 'Unknown error';
           this.logger.error(`Error from API for ${sessionId}: ${errorMessage}`, event.error);
@@ -574,6 +689,46 @@ export class WebRTCService implements OnModuleDestroy {
     }
   }
   
+  /**
+   * Run the function calls of a finished response and ask the model to answer with their results
+   * @param sessionId Client's session ID
+   * @param response The `response` of a `response.done` event
+   */
+  private async handleFunctionCalls(sessionId: string, response: any): Promise<void> {
+    const calls = (response?.output || []).filter((item: any) => item.type === 'function_call');
+    if (!calls.length) {
+      return;
+    }
+    
+    const session = this.realtimeSessions.get(sessionId);
+    if (!session) {
+      this.logger.warn(`Session ${sessionId} closed before its function calls could run`);
+      return;
+    }
+    
+    const context: RealtimeToolContext = {
+      sessionId,
+      reportKey: session.reportKey,
+      language: session.language,
+      emitToClient: (event, data) => session.clientSocket?.emit(event, data),
+    };
+    
+    for (const call of calls) {
+      const output = await this.toolRegistry.execute(call.name, call.arguments, context);
+      await this.sendRealtimeEvent(sessionId, {
+        type: 'conversation.item.create',
+        item: {
+          type: 'function_call_output',
+          call_id: call.call_id,
+          output
+        }
+      });
+    }
+    
+    // One response for all results, so parallel calls don't trigger overlapping answers
+    await this.sendRealtimeEvent(sessionId, { type: 'response.create' });
+  }
+  
   /**
    * Close a realtime session
    * @param sessionId Client's session ID
@@ -729,6 +884,39 @@ export class WebRTCService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Tell a session which page the participant is looking at. When the page or the
+   * narrated step changed, a connected session gets its instructions updated with
+   * `session.update`; otherwise they are built with the page once it connects.
+   * @param sessionId Client's session ID
+   * @param page Visible page and narrated step
+   * @returns true when the page context changed
+   */
+  async updatePageContext(sessionId: string, page: PageReference): Promise<boolean> {
+    const session = this.realtimeSessions.get(sessionId);
+    if (!session) {
+      this.logger.error(`Cannot update page context: Session ${sessionId} not found`);
+      return false;
+    }
+
+    if (session.page?.pageNumber === page.pageNumber && session.page?.stepKey === page.stepKey) {
+      return false;
+    }
+
+    session.page = page;
+    session.lastActivity = new Date();
+    this.logger.log(`Session ${sessionId} is now on page ${page.pageNumber}${page.stepKey ? ` (step ${page.stepKey})` : ''}`);
+
+    if (session.state === 'connected' && session.modelConnection) {
+      await this.sendRealtimeEvent(sessionId, {
+        type: 'session.update',
+        session: { instructions: this.buildInstructions(session, session.initialPrompt) },
+      });
+    }
+
+    return true;
+  }
+
   /**
    * Check if a realtime session exists
    * @param sessionId Client's session ID
@@ -906,4 +1094,46 @@ export class WebRTCService implements OnModuleDestroy {
       return false;
     }
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Send a typed message into the conversation and ask for a reply, which arrives
+   * like a spoken one, as audio and transcript events
+   * @param sessionId Client's session ID
+   * @param text The participant's message
+   */
+  async sendTextMessage(sessionId: string, text: string): Promise<boolean> {
+    try {
+      // Get the session
+      const session = this.realtimeSessions.get(sessionId);
+      if (!session) {
+        this.logger.error(`❌ Cannot send text: Session ${sessionId} not found`);
+        return false;
+      }
+
+      // Check if connected
+      if (session.state !== 'connected' || !session.modelConnection) {
+        this.logger.error(`❌ Cannot send text: Session ${sessionId} is not connected (state: ${session.state}, hasConnection: ${!!session.modelConnection})`);
+        return false;
+      }
+
+      // Update activity timestamp
+      session.lastActivity = new Date();
+      
+      this.logger.log(`⌨️ Sending typed message for session ${sessionId} (${text.length} chars)`);
+      
+      const sent = await this.sendRealtimeEvent(sessionId, {
+        type: 'conversation.item.create',
+        item: {
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text }]
+        }
+      });
+      
+      return sent && this.sendRealtimeEvent(sessionId, { type: 'response.create' });
+    } catch (error) {
+      this.logger.error(`❌ Error sending text for session ${sessionId}: ${error.message}`);
+      return false;
+    }
+  }
+}